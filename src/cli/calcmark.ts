@@ -0,0 +1,77 @@
+/**
+ * calcmark: evaluate CalcMark files from the command line
+ *
+ * Built with `npm run build:cli` (see vite.cli.config.ts) into dist/cli/calcmark.js.
+ * Exit status: 0 ok, 1 error diagnostics with --check, 2 usage or I/O error.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import { evaluate } from '$lib/api/evaluation';
+import { parseCliOptions, USAGE, type CliOptions } from '$lib/cli/options';
+import { collectErrors, formatTextReport, toFileReport } from '$lib/cli/report';
+import { readWasmFiles } from '$lib/server/wasmFiles';
+
+// The engine files `npm run build:cli` copies next to the bundle
+const DEFAULT_WASM_DIR = fileURLToPath(new URL('./', import.meta.url));
+
+async function readSource(file: string): Promise<string> {
+	if (file !== '-') return readFile(file, 'utf8');
+
+	const chunks: Buffer[] = [];
+	for await (const chunk of process.stdin) chunks.push(chunk);
+	return Buffer.concat(chunks).toString('utf8');
+}
+
+async function run(options: CliOptions): Promise<number> {
+	const assets = await readWasmFiles(
+		options.wasmDir ?? process.env.CALCMARK_WASM_DIR ?? DEFAULT_WASM_DIR
+	);
+
+	const reports = [];
+	const errors: string[] = [];
+	for (const file of options.files) {
+		const name = file === '-' ? '<stdin>' : file;
+		const evaluation = await evaluate(await readSource(file), { assets });
+
+		reports.push(
+			options.format === 'json'
+				? toFileReport(name, evaluation)
+				: formatTextReport(name, evaluation)
+		);
+		errors.push(...collectErrors(name, evaluation));
+	}
+
+	console.log(options.format === 'json' ? JSON.stringify(reports, null, 2) : reports.join('\n\n'));
+
+	if (options.check && errors.length > 0) {
+		console.error(errors.join('\n'));
+		return 1;
+	}
+	return 0;
+}
+
+async function main(): Promise<number> {
+	let options: CliOptions;
+	try {
+		options = parseCliOptions(process.argv.slice(2));
+	} catch (error) {
+		console.error(`calcmark: ${(error as Error).message}\n\n${USAGE}`);
+		return 2;
+	}
+
+	if (options.help) {
+		console.log(USAGE);
+		return 0;
+	}
+
+	try {
+		return await run(options);
+	} catch (error) {
+		console.error(`calcmark: ${(error as Error).message}`);
+		return 2;
+	}
+}
+
+// The Go runtime keeps the event loop alive, so exit explicitly
+process.exit(await main());
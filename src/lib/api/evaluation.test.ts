@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { toEvaluation } from './evaluation';
+import type { CalcMarkResults } from '$lib/client/calcmarkCore';
+
+describe('toEvaluation', () => {
+	const source = '# Budget\nrent = $1500\n\ntotal = rent + x';
+	const results: CalcMarkResults = {
+		classifications: [
+			{ lineType: 'MARKDOWN', line: '# Budget' },
+			{ lineType: 'CALCULATION', line: 'rent = $1500' },
+			{ lineType: 'BLANK', line: '' },
+			{ lineType: 'CALCULATION', line: 'total = rent + x' }
+		],
+		// 1-indexed
+		tokensByLine: {
+			2: [
+				{ type: 'IDENTIFIER', value: 'rent', start: 0, end: 4 },
+				{ type: 'ASSIGN', value: '=', start: 5, end: 6 },
+				{ type: 'CURRENCY', value: '$1500', start: 7, end: 12 }
+			],
+			4: [
+				{ type: 'IDENTIFIER', value: 'total', start: 0, end: 5 },
+				{ type: 'ASSIGN', value: '=', start: 6, end: 7 }
+			]
+		},
+		// 1-indexed
+		evaluationResults: [{ OriginalLine: 2, Value: { Value: 1500, Symbol: '$' } }],
+		// 0-indexed
+		diagnostics: { 3: [{ severity: 'error', message: 'Undefined variable x' }] },
+		variableContext: { rent: { OriginalLine: 2, Value: { Value: 1500, Symbol: '$' } } },
+		dependencyGraph: {}
+	};
+
+	it('should produce one 0-indexed record per line', () => {
+		const { lines } = toEvaluation(source, results);
+
+		expect(lines.map((line) => [line.lineNumber, line.type, line.text])).toEqual([
+			[0, 'MARKDOWN', '# Budget'],
+			[1, 'CALCULATION', 'rent = $1500'],
+			[2, 'BLANK', ''],
+			[3, 'CALCULATION', 'total = rent + x']
+		]);
+	});
+
+	it('should attach tokens, assigned variables, values and diagnostics to their lines', () => {
+		const { lines } = toEvaluation(source, results);
+
+		expect(lines[1]).toMatchObject({ variable: 'rent', value: { Value: 1500, Symbol: '$' } });
+		expect(lines[1].tokens).toHaveLength(3);
+		expect(lines[1].diagnostics).toEqual([]);
+		expect(lines[3]).toMatchObject({ variable: 'total', value: null });
+		expect(lines[3].diagnostics[0].message).toBe('Undefined variable x');
+		expect(lines[0]).toMatchObject({ tokens: [], variable: null, value: null });
+	});
+
+	it('should collect variable values and report errors', () => {
+		const evaluation = toEvaluation(source, results);
+
+		expect(evaluation.values).toEqual({ rent: { Value: 1500, Symbol: '$' } });
+		expect(evaluation.hasErrors).toBe(true);
+		expect(evaluation.source).toBe(source);
+	});
+
+	it('should not count warnings as errors', () => {
+		const evaluation = toEvaluation(source, {
+			...results,
+			diagnostics: { 3: [{ severity: 'warning', message: 'Unused variable' }] }
+		});
+		expect(evaluation.hasErrors).toBe(false);
+	});
+});
@@ -0,0 +1,83 @@
+/**
+ * Public evaluation API
+ *
+ * Turns raw engine output (CalcMarkResults, with its mix of 0- and 1-indexed
+ * line maps) into one record per line. Everything here runs in the current
+ * thread; the editor uses a worker instead (see calcmarkWorkerManager.ts).
+ */
+
+import type { LineType, CalcMarkResults } from '$lib/client/calcmarkCore';
+import { getAssignedVariable } from '$lib/client/calcmarkCore';
+import { initCalcMark, processCalcMark, type WasmSource } from '$lib/client/calcmark';
+import { createEvaluatedDocument } from '$lib/export/evaluatedDocument';
+import type { Diagnostic, EvaluationResult, Token } from '$lib/state/CalcMarkDocument';
+
+/**
+ * A computed value: the number (or boolean) and its unit or currency symbol
+ */
+export type CalcMarkValue = EvaluationResult['Value'];
+
+export interface EvaluatedLine {
+	lineNumber: number; // 0-indexed
+	text: string;
+	type: LineType;
+	tokens: Token[]; // Calculation lines only; positions in runes
+	diagnostics: Diagnostic[];
+	variable: string | null; // Variable assigned on this line
+	value: CalcMarkValue | null; // Result of a calculation line
+}
+
+export interface Evaluation {
+	source: string;
+	lines: EvaluatedLine[];
+	values: Record<string, CalcMarkValue>; // Final value of every variable
+	hasErrors: boolean; // Any line has an error diagnostic
+}
+
+export interface EvaluateOptions {
+	/** Where to load the engine from; defaults to the files bundled with the app */
+	assets?: WasmSource;
+}
+
+/**
+ * Convert engine results for `source` into per-line records
+ *
+ * @param results - processCalcMark() or IncrementalEvaluator output for exactly this source
+ */
+export function toEvaluation(source: string, results: CalcMarkResults): Evaluation {
+	const lines = createEvaluatedDocument(source, results)
+		.getLines()
+		.map((line): EvaluatedLine => {
+			const tokens = line.tokens ?? [];
+			return {
+				lineNumber: line.lineNumber,
+				text: line.rawContent,
+				type: line.classification ?? (line.rawContent.trim() === '' ? 'BLANK' : 'MARKDOWN'),
+				tokens,
+				diagnostics: line.diagnostics ?? [],
+				variable: getAssignedVariable(tokens),
+				value: line.calculationResult?.Value ?? null
+			};
+		});
+
+	const values: Record<string, CalcMarkValue> = {};
+	for (const [name, result] of Object.entries(results.variableContext)) {
+		values[name] = result.Value;
+	}
+
+	return {
+		source,
+		lines,
+		values,
+		hasErrors: lines.some((line) => line.diagnostics.some((d) => d.severity === 'error'))
+	};
+}
+
+/**
+ * Evaluate a whole CalcMark document
+ * Loads the engine on first use.
+ */
+export async function evaluate(source: string, options: EvaluateOptions = {}): Promise<Evaluation> {
+	await initCalcMark(options.assets);
+	return toEvaluation(source, await processCalcMark(source));
+}
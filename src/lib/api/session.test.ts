@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { CalcMarkSession } from './session';
+import { createFakeApi } from '$lib/client/__tests__/fakeCalcMarkApi';
+
+const DOC = `# Budget
+a = 10
+b = 20
+total = a + b
+c = 1
+d = 2
+e = 3`;
+
+describe('CalcMarkSession', () => {
+	let fake: ReturnType<typeof createFakeApi>;
+	let session: CalcMarkSession;
+
+	beforeEach(() => {
+		fake = createFakeApi();
+		session = new CalcMarkSession(fake.api, DOC);
+	});
+
+	it('should evaluate the initial text', () => {
+		const evaluation = session.evaluate();
+
+		expect(evaluation.values.total.Value).toBe(30);
+		expect(evaluation.lines[3].value?.Value).toBe(30);
+		expect(session.lastStats?.mode).toBe('full');
+	});
+
+	it('should re-evaluate only what an edit affects', () => {
+		session.evaluate();
+		fake.calls.evaluate.length = 0;
+
+		const evaluation = session.setText(DOC.replace('b = 20', 'b = 5'));
+
+		expect(evaluation.values.total.Value).toBe(15);
+		expect(session.lastStats?.mode).toBe('incremental');
+		expect(fake.calls.evaluate[0]).not.toContain('# Budget');
+	});
+
+	it('should serve unchanged text from the cache', () => {
+		session.evaluate();
+		session.setText(DOC);
+		expect(session.lastStats?.mode).toBe('cached');
+	});
+
+	it('should replace line ranges', () => {
+		session.evaluate();
+		const evaluation = session.replaceLines(3, 1, ['total = a * b', 'double = total * 2']);
+
+		expect(session.text.split('\n').slice(3, 5)).toEqual(['total = a * b', 'double = total * 2']);
+		expect(evaluation.values.double.Value).toBe(400);
+		expect(evaluation.lines).toHaveLength(8);
+	});
+
+	it('should reject line ranges outside the document', () => {
+		expect(() => session.replaceLines(9, 0, ['x = 1'])).toThrow(RangeError);
+	});
+
+	it('should report errors from edits', () => {
+		expect(session.evaluate().hasErrors).toBe(false);
+		const evaluation = session.setText(`${DOC}\nbroken = missing + 1`);
+		expect(evaluation.hasErrors).toBe(true);
+		expect(evaluation.lines[7].diagnostics[0].message).toBe('Undefined variable: missing');
+	});
+});
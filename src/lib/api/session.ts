@@ -0,0 +1,90 @@
+/**
+ * Incremental evaluation for tools that edit a document repeatedly
+ *
+ * Wraps the IncrementalEvaluator the editor's worker uses: unchanged lines keep
+ * their cached classification and tokens, and only lines affected by an edit
+ * are re-evaluated.
+ */
+
+import { getCalcMark } from '$lib/client/calcmark';
+import type { CalcMarkAPI } from '$lib/client/calcmarkCore';
+import {
+	applyLineDelta,
+	computeLineDelta,
+	splitLines,
+	type EvaluationStats,
+	type LineDelta
+} from '$lib/client/evaluationProtocol';
+import { IncrementalEvaluator } from '$lib/client/incrementalEvaluator';
+import { toEvaluation, type EvaluateOptions, type Evaluation } from './evaluation';
+
+export class CalcMarkSession {
+	private evaluator: IncrementalEvaluator;
+	private lines: string[];
+	private version = 0;
+	private stats: EvaluationStats | null = null;
+
+	/**
+	 * Use CalcMarkSession.create() unless you already hold an engine instance
+	 */
+	constructor(api: CalcMarkAPI, source: string = '') {
+		this.evaluator = new IncrementalEvaluator(api);
+		this.lines = splitLines(source);
+		this.evaluator.open(source, this.version);
+	}
+
+	/**
+	 * Load the engine (on first use) and open a session on `source`
+	 */
+	static async create(
+		source: string = '',
+		options: EvaluateOptions = {}
+	): Promise<CalcMarkSession> {
+		return new CalcMarkSession(await getCalcMark(options.assets), source);
+	}
+
+	get text(): string {
+		return this.lines.join('\n');
+	}
+
+	/**
+	 * How the last evaluation went: full, incremental or served from cache
+	 */
+	get lastStats(): EvaluationStats | null {
+		return this.stats;
+	}
+
+	/**
+	 * Evaluate the current text
+	 */
+	evaluate(): Evaluation {
+		const { results, stats } = this.evaluator.evaluate();
+		this.stats = stats;
+		return toEvaluation(this.text, results);
+	}
+
+	/**
+	 * Replace the whole text; only the lines that differ are re-evaluated
+	 */
+	setText(source: string): Evaluation {
+		const delta = computeLineDelta(this.lines, splitLines(source));
+		return delta ? this.applyDelta(delta) : this.evaluate();
+	}
+
+	/**
+	 * Replace `deleteCount` lines starting at `start` (0-indexed) with `lines`
+	 */
+	replaceLines(start: number, deleteCount: number, lines: string[]): Evaluation {
+		if (start < 0 || start > this.lines.length) {
+			throw new RangeError(`Line ${start} is outside the document (0-${this.lines.length})`);
+		}
+		return this.applyDelta({ start, deleteCount, lines });
+	}
+
+	private applyDelta(delta: LineDelta): Evaluation {
+		const baseVersion = this.version++;
+		this.lines = applyLineDelta(this.lines, delta);
+		this.evaluator.applyDelta(delta, baseVersion, this.version);
+		return this.evaluate();
+	}
+}
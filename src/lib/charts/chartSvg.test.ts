@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { renderChartSvg } from './chartSvg';
+import type { ChartPoint, DocumentChart } from './charts';
+
+const points: ChartPoint[] = [
+	{ name: 'salary', value: 5000, symbol: '$', group: 'Income' },
+	{ name: 'rent', value: 1500, symbol: '$', group: 'Expenses' },
+	{ name: 'food', value: 800, symbol: '$', group: 'Expenses' }
+];
+
+function chart(overrides: Partial<DocumentChart['spec']> = {}, data: Partial<DocumentChart> = {}) {
+	return {
+		start: 0,
+		end: 2,
+		spec: { type: 'bar', title: null, names: null, errors: [], ...overrides },
+		points,
+		missing: [],
+		...data
+	} satisfies DocumentChart;
+}
+
+describe('renderChartSvg', () => {
+	it('should draw one bar per value with a tooltip', () => {
+		const svg = renderChartSvg(chart());
+
+		expect(svg).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg"/);
+		expect(svg.match(/<rect [^>]*><title>/g)).toHaveLength(3);
+		expect(svg).toContain('<title>rent: $1,500</title>');
+	});
+
+	it('should color and label groups when there is more than one', () => {
+		const svg = renderChartSvg(chart());
+
+		expect(svg).toContain('>Income</text>');
+		expect(svg).toContain('>Expenses</text>');
+		expect(renderChartSvg(chart({}, { points: points.slice(1) }))).not.toContain(
+			'>Expenses</text>'
+		);
+	});
+
+	it('should draw pie slices with a legend', () => {
+		const svg = renderChartSvg(chart({ type: 'pie', title: 'Budget' }));
+
+		expect(svg.match(/<path /g)).toHaveLength(3);
+		expect(svg).toContain('>food $800</text>');
+		expect(svg).toContain('aria-label="Budget"');
+	});
+
+	it('should draw one line series per group', () => {
+		const svg = renderChartSvg(chart({ type: 'line' }));
+
+		expect(svg.match(/<polyline /g)).toHaveLength(2);
+		expect(svg.match(/<circle /g)).toHaveLength(3);
+	});
+
+	it('should show problems instead of failing', () => {
+		expect(renderChartSvg(chart({}, { points: [] }))).toContain('No values to chart');
+		expect(
+			renderChartSvg(chart({ errors: ['Unknown chart type "x"'] }, { missing: ['y'] }))
+		).toContain('Unknown chart type &quot;x&quot;; Not a number or undefined: y');
+	});
+
+	it('should escape names and titles', () => {
+		const svg = renderChartSvg(
+			chart({ title: '<script>' }, { points: [{ ...points[0], name: '<b>' }] })
+		);
+
+		expect(svg).not.toContain('<script>');
+		expect(svg).not.toContain('<b>');
+	});
+});
@@ -0,0 +1,187 @@
+/**
+ * Inline SVG for document charts
+ *
+ * Colors and fonts are attributes rather than classes, so the markup looks the
+ * same in the editor, the print view and exported HTML without extra CSS.
+ * All text is escaped; the result is safe for {@html}.
+ */
+
+import { escapeHtml, formatValue } from '$lib/utils/wysiwygRenderer';
+import type { ChartPoint, DocumentChart } from './charts';
+
+const WIDTH = 240;
+const HEIGHT = 160;
+const TITLE_HEIGHT = 16;
+const LABEL_HEIGHT = 12; // Row of value names under bars and points
+const PADDING = 6;
+
+const TEXT_COLOR = '#64748b';
+const AXIS_COLOR = '#cbd5e1';
+const ERROR_COLOR = '#dc2626';
+const PALETTE = ['#0ea5e9', '#7c3aed', '#f59e0b', '#10b981', '#ec4899', '#64748b'];
+
+function color(index: number): string {
+	return PALETTE[index % PALETTE.length];
+}
+
+function formatPoint(point: ChartPoint): string {
+	return formatValue({ Value: point.value, Symbol: point.symbol });
+}
+
+function text(x: number, y: number, content: string, attributes = ''): string {
+	return `<text x="${x.toFixed(1)}" y="${y.toFixed(1)}" font-size="8" fill="${TEXT_COLOR}"${attributes}>${escapeHtml(content)}</text>`;
+}
+
+/**
+ * Groups in order of first appearance
+ */
+function groupsOf(points: ChartPoint[]): Array<string | null> {
+	return [...new Set(points.map((point) => point.group))];
+}
+
+/**
+ * One color per group; legend only when there is more than one group
+ */
+function renderGroupLegend(groups: Array<string | null>, y: number): string {
+	if (groups.length < 2) return '';
+	let x = PADDING;
+	return groups
+		.map((group, index) => {
+			const label = group ?? 'Other';
+			const item = `<rect x="${x.toFixed(1)}" y="${y - 6}" width="6" height="6" fill="${color(index)}" />${text(x + 8, y, label)}`;
+			x += 8 + label.length * 4.5 + 8;
+			return item;
+		})
+		.join('');
+}
+
+function renderBars(points: ChartPoint[], top: number, bottom: number): string {
+	const groups = groupsOf(points);
+	const min = Math.min(0, ...points.map((point) => point.value));
+	const max = Math.max(0, ...points.map((point) => point.value));
+	const range = max - min || 1;
+	const y = (value: number) => bottom - ((value - min) / range) * (bottom - top);
+
+	// Extra space between groups
+	const slots = points.length + groups.length - 1;
+	const slotWidth = (WIDTH - PADDING * 2) / slots;
+	let slot = 0;
+	let previousGroup = points[0]?.group;
+
+	const bars = points.map((point) => {
+		if (point.group !== previousGroup) {
+			slot++;
+			previousGroup = point.group;
+		}
+		const x = PADDING + slot * slotWidth;
+		slot++;
+		const barTop = Math.min(y(point.value), y(0));
+		const height = Math.max(Math.abs(y(point.value) - y(0)), 0.5);
+		return (
+			`<rect x="${(x + slotWidth * 0.15).toFixed(1)}" y="${barTop.toFixed(1)}" width="${(slotWidth * 0.7).toFixed(1)}" height="${height.toFixed(1)}" fill="${color(groups.indexOf(point.group))}"><title>${escapeHtml(`${point.name}: ${formatPoint(point)}`)}</title></rect>` +
+			text(x + slotWidth / 2, bottom + 10, point.name, ' text-anchor="middle"')
+		);
+	});
+
+	return `<line x1="${PADDING}" y1="${y(0).toFixed(1)}" x2="${WIDTH - PADDING}" y2="${y(0).toFixed(1)}" stroke="${AXIS_COLOR}" />${bars.join('')}`;
+}
+
+function renderLine(points: ChartPoint[], top: number, bottom: number): string {
+	const groups = groupsOf(points);
+	const min = Math.min(...points.map((point) => point.value));
+	const max = Math.max(...points.map((point) => point.value));
+	const range = max - min || 1;
+	const step = points.length > 1 ? (WIDTH - PADDING * 4) / (points.length - 1) : 0;
+	const x = (index: number) =>
+		PADDING * 2 + (points.length > 1 ? index * step : (WIDTH - PADDING * 4) / 2);
+	const y = (value: number) => bottom - ((value - min) / range) * (bottom - top);
+
+	// One series per group
+	const series = groups.map((group, groupIndex) => {
+		const coordinates = points
+			.map((point, index) => ({ point, index }))
+			.filter(({ point }) => point.group === group)
+			.map(({ point, index }) => `${x(index).toFixed(1)},${y(point.value).toFixed(1)}`);
+		return `<polyline points="${coordinates.join(' ')}" fill="none" stroke="${color(groupIndex)}" stroke-width="2" />`;
+	});
+
+	const markers = points.map(
+		(point, index) =>
+			`<circle cx="${x(index).toFixed(1)}" cy="${y(point.value).toFixed(1)}" r="2.5" fill="${color(groups.indexOf(point.group))}"><title>${escapeHtml(`${point.name}: ${formatPoint(point)}`)}</title></circle>` +
+			text(x(index), bottom + 10, point.name, ' text-anchor="middle"')
+	);
+
+	return `<line x1="${PADDING}" y1="${bottom}" x2="${WIDTH - PADDING}" y2="${bottom}" stroke="${AXIS_COLOR}" />${series.join('')}${markers.join('')}`;
+}
+
+function renderPie(points: ChartPoint[], top: number, bottom: number): string {
+	const slices = points.filter((point) => point.value > 0);
+	const total = slices.reduce((sum, point) => sum + point.value, 0);
+	const radius = (bottom - top) / 2;
+	const cx = PADDING + radius;
+	const cy = top + radius;
+	let angle = -Math.PI / 2;
+
+	const paths = slices.map((point, index) => {
+		const title = `<title>${escapeHtml(`${point.name}: ${formatPoint(point)}`)}</title>`;
+		if (slices.length === 1) {
+			return `<circle cx="${cx.toFixed(1)}" cy="${cy.toFixed(1)}" r="${radius.toFixed(1)}" fill="${color(index)}">${title}</circle>`;
+		}
+		const sweep = (point.value / total) * Math.PI * 2;
+		const start = [cx + radius * Math.cos(angle), cy + radius * Math.sin(angle)];
+		angle += sweep;
+		const end = [cx + radius * Math.cos(angle), cy + radius * Math.sin(angle)];
+		const largeArc = sweep > Math.PI ? 1 : 0;
+		return `<path d="M${cx.toFixed(1)},${cy.toFixed(1)} L${start[0].toFixed(1)},${start[1].toFixed(1)} A${radius.toFixed(1)},${radius.toFixed(1)} 0 ${largeArc} 1 ${end[0].toFixed(1)},${end[1].toFixed(1)} Z" fill="${color(index)}">${title}</path>`;
+	});
+
+	// Legend to the right of the pie
+	const legendX = cx + radius + PADDING * 2;
+	const legend = slices.map((point, index) => {
+		const y = top + 8 + index * 12;
+		return `<rect x="${legendX.toFixed(1)}" y="${y - 6}" width="6" height="6" fill="${color(index)}" />${text(legendX + 9, y, `${point.name} ${formatPoint(point)}`)}`;
+	});
+
+	return paths.join('') + legend.join('');
+}
+
+/**
+ * Render a chart as a standalone <svg> element
+ */
+export function renderChartSvg(chart: DocumentChart): string {
+	const { spec, points, missing } = chart;
+	const problems = [...spec.errors];
+	if (missing.length > 0) problems.push(`Not a number or undefined: ${missing.join(', ')}`);
+	if (points.length === 0 && problems.length === 0) problems.push('No values to chart');
+
+	// Layout from the top: title, plot, value names, group legend, problems
+	const problemsY = HEIGHT - 4;
+	const legendY = problems.length > 0 ? problemsY - 12 : problemsY;
+	const top = (spec.title ? TITLE_HEIGHT : 0) + PADDING;
+	const bottom = spec.type === 'pie' ? legendY : legendY - LABEL_HEIGHT - 8;
+
+	let body = '';
+	if (points.length > 0 && spec.type === 'pie') {
+		body = renderPie(points, top, bottom);
+	} else if (points.length > 0) {
+		body = spec.type === 'line' ? renderLine(points, top, bottom) : renderBars(points, top, bottom);
+		body += renderGroupLegend(groupsOf(points), legendY);
+	}
+
+	const title = spec.title ? text(PADDING, 11, spec.title, ' font-weight="600"') : '';
+	const problemText =
+		problems.length > 0
+			? `<text x="${PADDING}" y="${problemsY}" font-size="8" fill="${ERROR_COLOR}">${escapeHtml(problems.join('; '))}</text>`
+			: '';
+	const label = spec.title ?? `${spec.type} chart`;
+
+	return `<svg xmlns="http://www.w3.org/2000/svg" class="calcmark-chart" viewBox="0 0 ${WIDTH} ${HEIGHT}" role="img" aria-label="${escapeHtml(label)}">${title}${body}${problemText}</svg>`;
+}
+
+/**
+ * A chart as a block of its own, for output without the editor gutter
+ * (Viewer, print view, HTML export)
+ */
+export function renderChartFigure(chart: DocumentChart): string {
+	return `<figure class="md-chart">${renderChartSvg(chart)}</figure>`;
+}
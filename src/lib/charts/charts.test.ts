@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { buildCharts, parseChartSpec } from './charts';
+import { analyzeMarkdownBlocks } from '$lib/utils/markdownBlocks';
+import type { VariableContext } from '$lib/client/calcmarkCore';
+
+describe('parseChartSpec', () => {
+	it('should read type, title and values', () => {
+		expect(parseChartSpec(['type: Pie', 'title: Expenses', 'values: rent, food'])).toEqual({
+			type: 'pie',
+			title: 'Expenses',
+			names: ['rent', 'food'],
+			errors: []
+		});
+	});
+
+	it('should default to a bar chart of the section', () => {
+		expect(parseChartSpec([''])).toEqual({ type: 'bar', title: null, names: null, errors: [] });
+	});
+
+	it('should accept bare lists of names', () => {
+		expect(parseChartSpec(['rent, food', 'utilities']).names).toEqual([
+			'rent',
+			'food',
+			'utilities'
+		]);
+	});
+
+	it('should report unknown types and settings', () => {
+		expect(parseChartSpec(['type: donut', 'colour: red']).errors).toEqual([
+			'Unknown chart type "donut" (use bar, pie, line)',
+			'Unknown chart setting "colour"'
+		]);
+	});
+});
+
+describe('buildCharts', () => {
+	const text = `# Budget
+
+## Income
+salary = $5000
+bonus = $500
+
+## Expenses
+rent = $1500
+food = $800
+is_big = rent > 1000
+
+\`\`\`chart
+type: pie
+\`\`\`
+
+## Summary
+\`\`\`chart
+values: salary, rent, missing, is_big
+\`\`\``;
+	const lines = text.split('\n');
+	// OriginalLine is 1-indexed
+	const variables: VariableContext = {
+		salary: { OriginalLine: 4, Value: { Value: 5000, Symbol: '$' } },
+		bonus: { OriginalLine: 5, Value: { Value: 500, Symbol: '$' } },
+		rent: { OriginalLine: 8, Value: { Value: 1500, Symbol: '$' } },
+		food: { OriginalLine: 9, Value: { Value: 800, Symbol: '$' } },
+		is_big: { OriginalLine: 10, Value: { Value: true } }
+	};
+	const charts = buildCharts(lines, analyzeMarkdownBlocks(lines), variables);
+
+	it('should find every chart fence with its line range', () => {
+		expect(charts.map((chart) => [chart.start, chart.end])).toEqual([
+			[11, 13],
+			[16, 18]
+		]);
+	});
+
+	it("should chart the numeric variables of the chart's own section by default", () => {
+		expect(charts[0].spec.type).toBe('pie');
+		expect(charts[0].points).toEqual([
+			{ name: 'rent', value: 1500, symbol: '$', group: 'Expenses' },
+			{ name: 'food', value: 800, symbol: '$', group: 'Expenses' }
+		]);
+		expect(charts[0].missing).toEqual(['is_big']);
+	});
+
+	it('should group listed values by the heading above their definition', () => {
+		expect(charts[1].points.map((point) => [point.name, point.group])).toEqual([
+			['salary', 'Income'],
+			['rent', 'Expenses']
+		]);
+		expect(charts[1].missing).toEqual(['missing', 'is_big']);
+	});
+
+	it('should run an unclosed chart fence to the end of the document', () => {
+		const unclosed = ['a = 1', '```chart', 'values: a'];
+		const [chart] = buildCharts(unclosed, analyzeMarkdownBlocks(unclosed), {
+			a: { OriginalLine: 1, Value: { Value: 1 } }
+		});
+
+		expect(chart).toMatchObject({ start: 1, end: 2, points: [{ name: 'a', group: null }] });
+	});
+
+	it('should ignore other code fences', () => {
+		const code = ['```js', 'values: a', '```'];
+		expect(buildCharts(code, analyzeMarkdownBlocks(code), {})).toEqual([]);
+	});
+});
@@ -0,0 +1,165 @@
+/**
+ * Charts from document variables
+ *
+ * A ```chart fence describes a chart instead of code:
+ *
+ *   ```chart
+ *   type: pie
+ *   title: Monthly expenses
+ *   values: rent, food, utilities
+ *   ```
+ *
+ * Without `values:` the chart shows every variable defined in its own section
+ * (since the nearest heading above it). Values come from the evaluated
+ * variable context and are grouped by the heading above their definition.
+ * Like any fenced code, the block itself is never evaluated.
+ */
+
+import type { VariableContext } from '$lib/client/calcmarkCore';
+import type { MarkdownBlock } from '$lib/utils/markdownBlocks';
+
+export type ChartType = 'bar' | 'pie' | 'line';
+
+export const CHART_TYPES: readonly ChartType[] = ['bar', 'pie', 'line'];
+
+export interface ChartSpec {
+	type: ChartType;
+	title: string | null;
+	names: string[] | null; // null = every variable in the chart's section
+	errors: string[]; // Lines of the spec that could not be understood
+}
+
+export interface ChartPoint {
+	name: string;
+	value: number;
+	symbol: string; // Currency or unit, '' if none
+	group: string | null; // Nearest heading above the definition
+}
+
+export interface DocumentChart {
+	start: number; // Opening fence line (0-indexed)
+	end: number; // Closing fence line, or the last line of an unclosed fence
+	spec: ChartSpec;
+	points: ChartPoint[];
+	missing: string[]; // Listed names that are undefined or not numeric
+}
+
+const SPEC_LINE = /^\s*(\w+)\s*:\s*(.*)$/;
+
+function splitNames(list: string): string[] {
+	return list
+		.split(',')
+		.map((name) => name.trim())
+		.filter((name) => name !== '');
+}
+
+/**
+ * Parse the lines between the fences
+ * A line without a key is read as a list of variable names.
+ */
+export function parseChartSpec(lines: string[]): ChartSpec {
+	const spec: ChartSpec = { type: 'bar', title: null, names: null, errors: [] };
+
+	for (const line of lines) {
+		if (line.trim() === '') continue;
+
+		const match = SPEC_LINE.exec(line);
+		const key = match?.[1].toLowerCase();
+		const value = match?.[2].trim() ?? '';
+
+		if (!match) {
+			spec.names = [...(spec.names ?? []), ...splitNames(line)];
+		} else if (key === 'type') {
+			if (CHART_TYPES.includes(value.toLowerCase() as ChartType)) {
+				spec.type = value.toLowerCase() as ChartType;
+			} else {
+				spec.errors.push(`Unknown chart type "${value}" (use ${CHART_TYPES.join(', ')})`);
+			}
+		} else if (key === 'title') {
+			spec.title = value || null;
+		} else if (key === 'values') {
+			spec.names = [...(spec.names ?? []), ...splitNames(value)];
+		} else {
+			spec.errors.push(`Unknown chart setting "${match[1]}"`);
+		}
+	}
+
+	return spec;
+}
+
+function headingText(line: string, block: MarkdownBlock): string {
+	return block.type === 'heading'
+		? line
+				.slice(block.markerEnd)
+				.replace(/\s#+\s*$/, '')
+				.trim()
+		: '';
+}
+
+/**
+ * Every chart block in a document, with its data taken from `variables`
+ *
+ * @param blocks - analyzeMarkdownBlocks() of `lines`
+ */
+export function buildCharts(
+	lines: string[],
+	blocks: MarkdownBlock[],
+	variables: VariableContext
+): DocumentChart[] {
+	const charts: DocumentChart[] = [];
+	// Nearest heading above each line (index of the heading line, -1 before the first)
+	const sectionOf: number[] = [];
+	let section = -1;
+
+	blocks.forEach((block, index) => {
+		if (block.type === 'heading') section = index;
+		sectionOf.push(section);
+	});
+
+	const groupOf = (lineIndex: number): string | null => {
+		const heading = sectionOf[lineIndex] ?? -1;
+		return heading === -1 ? null : headingText(lines[heading], blocks[heading]) || null;
+	};
+
+	// Variables in document order of their (last) definition
+	const definitions = Object.entries(variables)
+		.map(([name, result]) => ({ name, line: result.OriginalLine - 1 }))
+		.sort((a, b) => a.line - b.line);
+
+	for (let index = 0; index < blocks.length; index++) {
+		const block = blocks[index];
+		if (block.type !== 'code-fence' || block.language !== 'chart') continue;
+
+		let end = index + 1;
+		while (end < blocks.length && blocks[end].type === 'code') end++;
+		const closed = end < blocks.length;
+		const spec = parseChartSpec(lines.slice(index + 1, end));
+
+		const names =
+			spec.names ??
+			definitions
+				.filter(({ line }) => line < index && sectionOf[line] === sectionOf[index])
+				.map(({ name }) => name);
+
+		const points: ChartPoint[] = [];
+		const missing: string[] = [];
+		for (const name of names) {
+			const result = Object.hasOwn(variables, name) ? variables[name] : undefined;
+			if (!result || typeof result.Value.Value !== 'number') {
+				missing.push(name);
+				continue;
+			}
+			points.push({
+				name,
+				value: result.Value.Value,
+				symbol: result.Value.Symbol ?? '',
+				group: groupOf(result.OriginalLine - 1)
+			});
+		}
+
+		charts.push({ start: index, end: closed ? end : end - 1, spec, points, missing });
+		index = end;
+	}
+
+	return charts;
+}
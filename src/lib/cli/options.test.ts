@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { parseCliOptions } from './options';
+
+describe('parseCliOptions', () => {
+	it('should default to a text report', () => {
+		expect(parseCliOptions(['budget.cm'])).toEqual({
+			files: ['budget.cm'],
+			format: 'text',
+			check: false,
+			wasmDir: null,
+			help: false
+		});
+	});
+
+	it('should parse flags and keep files in order', () => {
+		const options = parseCliOptions(['--json', 'a.cm', '--check', '--wasm-dir', 'engine', '-']);
+
+		expect(options).toMatchObject({
+			files: ['a.cm', '-'],
+			format: 'json',
+			check: true,
+			wasmDir: 'engine'
+		});
+	});
+
+	it('should allow --help without files', () => {
+		expect(parseCliOptions(['-h']).help).toBe(true);
+	});
+
+	it('should reject a missing file and unknown options', () => {
+		expect(() => parseCliOptions([])).toThrow('No input file given');
+		expect(() => parseCliOptions(['--verbose', 'a.cm'])).toThrow();
+	});
+});
@@ -0,0 +1,55 @@
+/**
+ * Command-line options of the calcmark runner (see src/cli/calcmark.ts)
+ */
+
+import { parseArgs } from 'node:util';
+
+export interface CliOptions {
+	files: string[]; // `-` reads standard input
+	format: 'text' | 'json';
+	check: boolean; // Exit with status 1 when any line has an error diagnostic
+	wasmDir: string | null; // null = the default engine location
+	help: boolean;
+}
+
+export const USAGE = `Usage: calcmark [options] <file...>
+
+Evaluate CalcMark documents (.cm, .calcmark) and print every calculation's result.
+
+Options:
+  --json            Print results as JSON (an array with one entry per file)
+  --check           Exit with status 1 if any line has an error diagnostic
+  --wasm-dir <dir>  Directory containing calcmark.wasm and wasm_exec.js
+                    (default: $CALCMARK_WASM_DIR, else the engine next to calcmark.js)
+  -h, --help        Show this help
+
+Use - as the file name to read from standard input.`;
+
+/**
+ * Parse `argv` (without the node and script paths)
+ * @throws Error for unknown options or a missing file argument
+ */
+export function parseCliOptions(argv: string[]): CliOptions {
+	const { values, positionals } = parseArgs({
+		args: argv,
+		allowPositionals: true,
+		options: {
+			json: { type: 'boolean', default: false },
+			check: { type: 'boolean', default: false },
+			'wasm-dir': { type: 'string' },
+			help: { type: 'boolean', short: 'h', default: false }
+		}
+	});
+
+	if (!values.help && positionals.length === 0) {
+		throw new Error('No input file given');
+	}
+
+	return {
+		files: positionals,
+		format: values.json ? 'json' : 'text',
+		check: values.check,
+		wasmDir: values['wasm-dir'] ?? null,
+		help: values.help
+	};
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { collectErrors, formatTextReport, toFileReport } from './report';
+import { toEvaluation } from '$lib/api/evaluation';
+import type { CalcMarkResults } from '$lib/client/calcmarkCore';
+
+const source = '# Budget\nrent = $1500\n\ntotal = rent + x';
+const results: CalcMarkResults = {
+	classifications: [
+		{ lineType: 'MARKDOWN', line: '# Budget' },
+		{ lineType: 'CALCULATION', line: 'rent = $1500' },
+		{ lineType: 'BLANK', line: '' },
+		{ lineType: 'CALCULATION', line: 'total = rent + x' }
+	],
+	tokensByLine: {
+		2: [
+			{ type: 'IDENTIFIER', value: 'rent', start: 0, end: 4 },
+			{ type: 'ASSIGN', value: '=', start: 5, end: 6 },
+			{ type: 'CURRENCY', value: '$1500', start: 7, end: 12 }
+		],
+		4: [
+			{ type: 'IDENTIFIER', value: 'total', start: 0, end: 5 },
+			{ type: 'ASSIGN', value: '=', start: 6, end: 7 }
+		]
+	},
+	evaluationResults: [{ OriginalLine: 2, Value: { Value: 1500, Symbol: '$' } }],
+	diagnostics: { 3: [{ severity: 'error', message: 'Undefined variable x' }] },
+	variableContext: { rent: { OriginalLine: 2, Value: { Value: 1500, Symbol: '$' } } },
+	dependencyGraph: {}
+};
+const evaluation = toEvaluation(source, results);
+
+describe('formatTextReport', () => {
+	it('should list calculations with 1-indexed line numbers, results and diagnostics', () => {
+		expect(formatTextReport('budget.cm', evaluation)).toBe(
+			[
+				'budget.cm',
+				'  2  rent = $1500      $1,500',
+				'  4  total = rent + x',
+				'     error: Undefined variable x'
+			].join('\n')
+		);
+	});
+});
+
+describe('toFileReport', () => {
+	it('should include values and reported lines', () => {
+		const report = toFileReport('budget.cm', evaluation);
+
+		expect(report).toMatchObject({ file: 'budget.cm', hasErrors: true });
+		expect(report.values).toEqual({ rent: { value: 1500, symbol: '$', formatted: '$1,500' } });
+		expect(report.lines.map((line) => line.line)).toEqual([2, 4]);
+		expect(report.lines[0]).toMatchObject({ variable: 'rent', value: 1500, formatted: '$1,500' });
+		expect(report.lines[1]).toMatchObject({ value: null, formatted: null });
+	});
+});
+
+describe('collectErrors', () => {
+	it('should format errors as file:line messages', () => {
+		expect(collectErrors('budget.cm', evaluation)).toEqual([
+			'budget.cm:4: error: Undefined variable x'
+		]);
+	});
+});
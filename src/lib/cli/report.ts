@@ -0,0 +1,104 @@
+/**
+ * Output of the calcmark runner: text for people, JSON for scripts
+ * Line numbers are 1-indexed, as editors and compilers show them.
+ */
+
+import type { Evaluation, EvaluatedLine } from '$lib/api/evaluation';
+import type { Diagnostic } from '$lib/state/CalcMarkDocument';
+import { formatValue } from '$lib/utils/wysiwygRenderer';
+
+export interface FileReport {
+	file: string;
+	hasErrors: boolean;
+	values: Record<string, { value: number | boolean; symbol: string | null; formatted: string }>;
+	lines: Array<{
+		line: number;
+		text: string;
+		variable: string | null;
+		value: number | boolean | null;
+		symbol: string | null;
+		formatted: string | null;
+		diagnostics: Diagnostic[];
+	}>;
+}
+
+function formatLineValue(line: EvaluatedLine): string | null {
+	return line.value ? formatValue(line.value) : null;
+}
+
+/**
+ * Lines worth reporting: calculations and anything with a diagnostic
+ */
+function reportedLines(evaluation: Evaluation): EvaluatedLine[] {
+	return evaluation.lines.filter(
+		(line) => line.type === 'CALCULATION' || line.diagnostics.length > 0
+	);
+}
+
+/**
+ * JSON-ready report of one file
+ */
+export function toFileReport(file: string, evaluation: Evaluation): FileReport {
+	const values: FileReport['values'] = {};
+	for (const [name, value] of Object.entries(evaluation.values)) {
+		values[name] = {
+			value: value.Value,
+			symbol: value.Symbol || null,
+			formatted: formatValue(value)
+		};
+	}
+
+	return {
+		file,
+		hasErrors: evaluation.hasErrors,
+		values,
+		lines: reportedLines(evaluation).map((line) => ({
+			line: line.lineNumber + 1,
+			text: line.text,
+			variable: line.variable,
+			value: line.value?.Value ?? null,
+			symbol: line.value?.Symbol || null,
+			formatted: formatLineValue(line),
+			diagnostics: line.diagnostics
+		}))
+	};
+}
+
+/**
+ * Human-readable report: each calculation followed by its result in an aligned column
+ *
+ *   budget.cm
+ *     2  rent = $1500           $1,500
+ *     4  total = rent + x
+ *        error: Undefined variable x
+ */
+export function formatTextReport(file: string, evaluation: Evaluation): string {
+	const lines = reportedLines(evaluation);
+	const numberWidth = String(evaluation.lines.length).length;
+	const textWidth = Math.max(0, ...lines.map((line) => line.text.trim().length));
+	const output = [file];
+
+	for (const line of lines) {
+		const number = String(line.lineNumber + 1).padStart(numberWidth);
+		const value = formatLineValue(line);
+		const text = line.text.trim();
+		output.push(`  ${number}  ${value === null ? text : `${text.padEnd(textWidth)}  ${value}`}`);
+
+		for (const diagnostic of line.diagnostics) {
+			output.push(`  ${' '.repeat(numberWidth)}  ${diagnostic.severity}: ${diagnostic.message}`);
+		}
+	}
+
+	return output.join('\n');
+}
+
+/**
+ * Error diagnostics in compiler style (`file:line: message`) for --check
+ */
+export function collectErrors(file: string, evaluation: Evaluation): string[] {
+	return evaluation.lines.flatMap((line) =>
+		line.diagnostics
+			.filter((diagnostic) => diagnostic.severity === 'error')
+			.map((diagnostic) => `${file}:${line.lineNumber + 1}: error: ${diagnostic.message}`)
+	);
+}
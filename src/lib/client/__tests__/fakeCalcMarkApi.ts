@@ -0,0 +1,109 @@
+/**
+ * Test double for the CalcMark WASM engine (unit tests only - never import from app code)
+ */
+
+import type { CalcMarkAPI } from '../calcmarkCore';
+import type { Token } from '$lib/state/CalcMarkDocument';
+
+/**
+ * Tiny stand-in for the WASM engine: integer arithmetic with `+` and `*`,
+ * enough to observe which lines the evaluator sends to the engine.
+ */
+export function createFakeApi() {
+	const calls = {
+		classifyLines: [] as string[][],
+		tokenize: [] as string[],
+		evaluate: [] as string[]
+	};
+
+	function classify(line: string) {
+		if (line.trim() === '') return 'BLANK';
+		if (/^\s*[#>]/.test(line) || !/[=\d]/.test(line)) return 'MARKDOWN';
+		return 'CALCULATION';
+	}
+
+	function tokenize(line: string): Token[] {
+		const tokens: Token[] = [];
+		const pattern = /([A-Za-z_]\w*)|(\d+)|(=)|(\+)|(\*)/g;
+		for (const match of line.matchAll(pattern)) {
+			const type = match[1]
+				? 'IDENTIFIER'
+				: match[2]
+					? 'NUMBER'
+					: match[3]
+						? 'ASSIGN'
+						: match[4]
+							? 'PLUS'
+							: 'MULTIPLY';
+			tokens.push({
+				type,
+				value: match[0],
+				start: match.index!,
+				end: match.index! + match[0].length
+			});
+		}
+		return tokens;
+	}
+
+	function run(source: string) {
+		const context: Record<string, number> = {};
+		const results: unknown[] = [];
+		const diagnostics: Record<number, { Diagnostics: unknown[] }> = {};
+
+		source.split('\n').forEach((line, index) => {
+			if (classify(line) !== 'CALCULATION') return;
+			const [target, expression] = line.includes('=') ? line.split('=') : [null, line];
+			let value = 0;
+			for (const product of expression!.split('+')) {
+				let term = 1;
+				for (const factor of product.split('*').map((f) => f.trim())) {
+					if (/^\d+$/.test(factor)) {
+						term *= Number(factor);
+					} else if (factor in context) {
+						term *= context[factor];
+					} else {
+						diagnostics[index] = {
+							Diagnostics: [{ severity: 'error', message: `Undefined variable: ${factor}` }]
+						};
+						return;
+					}
+				}
+				value += term;
+			}
+			if (target) context[target.trim()] = value;
+			results.push({ OriginalLine: index + 1, Value: { Value: value } });
+		});
+
+		return { results, diagnostics };
+	}
+
+	const api: CalcMarkAPI = {
+		classifyLines(lines) {
+			calls.classifyLines.push(lines);
+			return {
+				classifications: JSON.stringify(lines.map((line) => ({ lineType: classify(line), line }))),
+				error: null
+			};
+		},
+		tokenize(source) {
+			calls.tokenize.push(source);
+			return { tokens: JSON.stringify(tokenize(source)), error: null };
+		},
+		evaluateDocument(source) {
+			calls.evaluate.push(source);
+			return { results: JSON.stringify(run(source).results), error: null };
+		},
+		evaluate(source) {
+			return { results: JSON.stringify(run(source).results), error: null };
+		},
+		validate(source) {
+			return { diagnostics: JSON.stringify(run(source).diagnostics), error: null };
+		},
+		resetContext() {},
+		getVersion() {
+			return 'fake';
+		}
+	};
+
+	return { api, calls };
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { getAssetUrls, resolveAssetUrls, setAssetBasePath } from './assetPaths';
+
+describe('resolveAssetUrls', () => {
+	it('should resolve the engine files inside an absolute base path', () => {
+		expect(resolveAssetUrls('https://cdn.example.com/calcdown/')).toEqual({
+			workerUrl: 'https://cdn.example.com/calcdown/calcmark.worker.js',
+			wasmUrl: 'https://cdn.example.com/calcdown/calcmark.wasm',
+			wasmExecUrl: 'https://cdn.example.com/calcdown/wasm_exec.js'
+		});
+	});
+
+	it('should treat the base path as a directory without a trailing slash', () => {
+		expect(resolveAssetUrls('https://cdn.example.com/calcdown').wasmUrl).toBe(
+			'https://cdn.example.com/calcdown/calcmark.wasm'
+		);
+	});
+
+	it('should resolve relative base paths against the page', () => {
+		const urls = resolveAssetUrls('vendor/calcdown', 'https://tools.example.com/app/index.html');
+		expect(urls.workerUrl).toBe('https://tools.example.com/app/vendor/calcdown/calcmark.worker.js');
+
+		const rooted = resolveAssetUrls('/static/cm/', 'https://tools.example.com/app/index.html');
+		expect(rooted.wasmExecUrl).toBe('https://tools.example.com/static/cm/wasm_exec.js');
+	});
+
+	it('should accept URL objects', () => {
+		expect(resolveAssetUrls(new URL('https://example.com/a/')).wasmUrl).toBe(
+			'https://example.com/a/calcmark.wasm'
+		);
+	});
+});
+
+describe('setAssetBasePath', () => {
+	afterEach(() => setAssetBasePath(null));
+
+	it('should use the bundled files by default', () => {
+		expect(getAssetUrls()).toBeNull();
+	});
+
+	it('should store the resolved URLs until reset', () => {
+		setAssetBasePath('https://cdn.example.com/calcdown/');
+		expect(getAssetUrls()?.wasmUrl).toBe('https://cdn.example.com/calcdown/calcmark.wasm');
+
+		setAssetBasePath(null);
+		expect(getAssetUrls()).toBeNull();
+	});
+});
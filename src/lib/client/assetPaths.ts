@@ -0,0 +1,64 @@
+/**
+ * Where the CalcMark engine files are served from
+ *
+ * The app lets Vite bundle the worker and WASM (see bundledWasm.ts). Hosts of the
+ * <calcdown-editor> element serve the files from a directory of their choosing
+ * and set its base path; the URLs are then resolved against it at runtime.
+ */
+
+export interface CalcMarkAssetUrls {
+	workerUrl: string;
+	wasmUrl: string;
+	wasmExecUrl: string; // Go's wasm_exec.js runtime
+}
+
+/**
+ * The engine URLs the worker needs (it is already running by then)
+ */
+export type WasmAssetUrls = Pick<CalcMarkAssetUrls, 'wasmUrl' | 'wasmExecUrl'>;
+
+/**
+ * File names inside the base path directory (as written by `npm run build:element`)
+ */
+export const ASSET_FILE_NAMES = {
+	worker: 'calcmark.worker.js',
+	wasm: 'calcmark.wasm',
+	wasmExec: 'wasm_exec.js'
+} as const;
+
+let configuredUrls: CalcMarkAssetUrls | null = null;
+
+/**
+ * Resolve the engine file URLs inside `basePath`
+ *
+ * @param basePath - Directory URL, absolute or relative to `baseUrl`; a missing trailing slash is added
+ * @param baseUrl - What relative base paths are resolved against (the page by default)
+ */
+export function resolveAssetUrls(
+	basePath: string | URL,
+	baseUrl: string = globalThis.document?.baseURI ?? globalThis.location?.href
+): CalcMarkAssetUrls {
+	const directory = String(basePath).replace(/\/?$/, '/');
+	const base = new URL(directory, baseUrl);
+
+	return {
+		workerUrl: new URL(ASSET_FILE_NAMES.worker, base).href,
+		wasmUrl: new URL(ASSET_FILE_NAMES.wasm, base).href,
+		wasmExecUrl: new URL(ASSET_FILE_NAMES.wasmExec, base).href
+	};
+}
+
+/**
+ * Load the engine from `basePath` in every worker created from now on
+ * Pass null to go back to the Vite-bundled files.
+ */
+export function setAssetBasePath(basePath: string | URL | null): void {
+	configuredUrls = basePath === null ? null : resolveAssetUrls(basePath);
+}
+
+/**
+ * Configured engine URLs, or null when the bundled files are used
+ */
+export function getAssetUrls(): CalcMarkAssetUrls | null {
+	return configuredUrls;
+}
@@ -0,0 +1,9 @@
+/**
+ * CalcMark engine files bundled by Vite for the app build
+ *
+ * Only loaded (dynamically, from initCalcMark()) when no asset base path is
+ * configured, so hosted builds of the editor never depend on these imports.
+ */
+
+export { default as wasmExecCode } from '../wasm/wasm_exec.js?raw';
+export { default as wasmUrl } from '../wasm/calcmark.wasm?url';
@@ -6,33 +6,34 @@
  * Web Workers prevent blocking the main thread during evaluation.
  */
 
-import type { Diagnostic, Token, EvaluationResult } from '$lib/state/CalcMarkDocument';
-
-// Import WASM using Vite's special imports
-import wasmExecCode from '../wasm/wasm_exec.js?raw';
-import wasmUrl from '../wasm/calcmark.wasm?url';
-
-interface CalcMarkAPI {
-	tokenize(source: string): { tokens: string; error: string | null };
-	evaluate(source: string, useGlobalContext: boolean): { results: string; error: string | null };
-	evaluateDocument(
-		source: string,
-		useGlobalContext: boolean
-	): { results: string; error: string | null };
-	validate(source: string): { diagnostics: string; error: string | null };
-	classifyLines(lines: string[]): { classifications: string; error: string | null };
-	resetContext(): void;
-	getVersion(): string;
-}
+import type { EvaluationResult } from '$lib/state/CalcMarkDocument';
+import { findCodeBlockLines } from '$lib/utils/markdownBlocks';
+import {
+	buildVariableContext,
+	transformDiagnostics,
+	type CalcMarkAPI,
+	type CalcMarkResults,
+	type LineClassification,
+	type TokensByLine,
+	type WasmDiagnosticsByLine
+} from './calcmarkCore';
+import { buildDependencyGraph } from './dependencyGraph';
+import type { WasmAssetUrls } from './assetPaths';
 
-interface WasmLineDiagnostics {
-	Diagnostics: Diagnostic[];
+/**
+ * Engine files already in memory (e.g. read from disk in Node)
+ */
+export interface WasmFiles {
+	wasmExecCode: string; // Go's wasm_exec.js runtime
+	wasmBinary: BufferSource; // calcmark.wasm
 }
 
-type WasmDiagnosticsByLine = Record<number, WasmLineDiagnostics>;
-type DiagnosticsByLine = Record<number, Diagnostic[]>;
-type TokensByLine = Record<number, Token[]>;
-type VariableContext = Record<string, EvaluationResult>;
+/**
+ * Where initCalcMark() gets the engine: URLs to fetch, or the files themselves
+ */
+export type WasmSource = WasmAssetUrls | WasmFiles;
+
+export type { CalcMarkAPI, CalcMarkResults } from './calcmarkCore';
 
 declare global {
 	var calcmark: CalcMarkAPI | undefined;
@@ -48,22 +49,53 @@ let wasmInitialized = false;
 let wasmInitPromise: Promise<void> | null = null;
 
 /**
- * Initialize CalcMark WASM in the browser
+ * Fetch Go's WASM runtime and the engine binary
+ * Without a source, the files bundled by Vite are used (see bundledWasm.ts).
  */
-export async function initCalcMark(): Promise<void> {
+async function loadWasmFiles(
+	assets?: WasmSource
+): Promise<{ wasmExecCode: string; wasmBuffer: BufferSource }> {
+	if (assets && 'wasmExecCode' in assets) {
+		return { wasmExecCode: assets.wasmExecCode, wasmBuffer: assets.wasmBinary };
+	}
+
+	if (!assets) {
+		const { wasmExecCode, wasmUrl } = await import('./bundledWasm');
+		const response = await fetch(wasmUrl);
+		return { wasmExecCode, wasmBuffer: await response.arrayBuffer() };
+	}
+
+	const [execResponse, wasmResponse] = await Promise.all([
+		fetch(assets.wasmExecUrl),
+		fetch(assets.wasmUrl)
+	]);
+	for (const response of [execResponse, wasmResponse]) {
+		if (!response.ok) {
+			throw new Error(`Failed to load ${response.url}: ${response.status} ${response.statusText}`);
+		}
+	}
+
+	return { wasmExecCode: await execResponse.text(), wasmBuffer: await wasmResponse.arrayBuffer() };
+}
+
+/**
+ * Initialize CalcMark WASM (browser, worker or Node)
+ *
+ * @param assets - Where to load the engine from; defaults to the Vite-bundled files
+ */
+export async function initCalcMark(assets?: WasmSource): Promise<void> {
 	if (wasmInitialized) return;
 	if (wasmInitPromise) return wasmInitPromise;
 
 	wasmInitPromise = (async () => {
 		try {
+			const { wasmExecCode, wasmBuffer } = await loadWasmFiles(assets);
+
 			// Load Go's WASM runtime
 			// Use indirect eval to execute in global scope
 			(0, eval)(wasmExecCode);
 
-			// Fetch and instantiate WASM
-			const response = await fetch(wasmUrl);
-			const wasmBuffer = await response.arrayBuffer();
-
+			// Instantiate WASM
 			const go = new globalThis.Go();
 			const { instance } = await WebAssembly.instantiate(wasmBuffer, go.importObject);
 
@@ -90,37 +122,34 @@ export async function initCalcMark(): Promise<void> {
 /**
  * Get the CalcMark API (ensures WASM is initialized)
  */
-export async function getCalcMark(): Promise<CalcMarkAPI> {
-	await initCalcMark();
+export async function getCalcMark(assets?: WasmSource): Promise<CalcMarkAPI> {
+	await initCalcMark(assets);
 	if (!globalThis.calcmark) {
 		throw new Error('CalcMark API not available');
 	}
 	return globalThis.calcmark;
 }
 
-/**
- * Transform WASM diagnostic structure to frontend-expected structure
- */
-function transformDiagnostics(wasmDiagnostics: WasmDiagnosticsByLine): DiagnosticsByLine {
-	const result: DiagnosticsByLine = {};
-	for (const [lineNumberStr, lineData] of Object.entries(wasmDiagnostics)) {
-		const lineNumber = Number(lineNumberStr);
-		result[lineNumber] = lineData.Diagnostics;
-	}
-	return result;
-}
-
 /**
  * Process CalcMark input and return all results
  * This is the client-side version that runs instantly without network calls
  */
-export async function processCalcMark(input: string) {
+export async function processCalcMark(input: string): Promise<CalcMarkResults> {
 	const api = await getCalcMark();
 	const lines = input.split('\n');
 
+	// Fenced code is never evaluated: it is MARKDOWN, and blank to the engine
+	const codeLines = findCodeBlockLines(lines);
+	const source = lines.map((line, i) => (codeLines.has(i) ? '' : line)).join('\n');
+
 	// Step 1: Classify lines
 	const classifyResult = api.classifyLines(lines);
-	const classifications = classifyResult.error ? [] : JSON.parse(classifyResult.classifications);
+	const classifications: LineClassification[] = classifyResult.error
+		? []
+		: JSON.parse(classifyResult.classifications);
+	for (const i of codeLines) {
+		if (classifications[i]) classifications[i] = { lineType: 'MARKDOWN', line: lines[i] };
+	}
 
 	// Step 2: Tokenize calculation lines only
 	const tokensByLine: TokensByLine = {};
@@ -138,29 +167,17 @@ export async function processCalcMark(input: string) {
 
 	// Step 3: Evaluate document
 	api.resetContext();
-	const evalResult = api.evaluateDocument(input, true);
+	const evalResult = api.evaluateDocument(source, true);
 	const evaluationResults: EvaluationResult[] = evalResult.error
 		? []
 		: JSON.parse(evalResult.results);
 
-	// Step 4: Build variable context
-	const resultsByLine = evaluationResults;
-	const variableContext: VariableContext = {};
-
-	for (const result of evaluationResults) {
-		const lineNumber = result.OriginalLine;
-		const tokens = tokensByLine[lineNumber] || [];
-		const assignToken = tokens.find((t) => t.type === 'ASSIGN');
-		if (assignToken) {
-			const varToken = tokens.find((t) => t.type === 'IDENTIFIER' && t.start < assignToken.start);
-			if (varToken) {
-				variableContext[varToken.value] = result;
-			}
-		}
-	}
+	// Step 4: Build variable context and dependency graph
+	const variableContext = buildVariableContext(evaluationResults, tokensByLine);
+	const dependencyGraph = buildDependencyGraph(tokensByLine);
 
 	// Step 5: Validate
-	const validateResult = api.validate(input);
+	const validateResult = api.validate(source);
 	const rawDiagnostics: WasmDiagnosticsByLine = validateResult.error
 		? {}
 		: JSON.parse(validateResult.diagnostics);
@@ -169,8 +186,9 @@ export async function processCalcMark(input: string) {
 	return {
 		classifications,
 		tokensByLine,
-		evaluationResults: resultsByLine,
+		evaluationResults,
 		diagnostics,
-		variableContext
+		variableContext,
+		dependencyGraph
 	};
 }
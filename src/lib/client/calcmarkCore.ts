@@ -0,0 +1,114 @@
+/**
+ * CalcMark engine types and pure result helpers
+ *
+ * Shared by the browser loader (calcmark.ts) and the incremental evaluator.
+ * Deliberately free of Vite-specific imports (?raw / ?url) so it can be
+ * imported from unit tests and non-browser code.
+ */
+
+import type { Diagnostic, Token, EvaluationResult } from '$lib/state/CalcMarkDocument';
+import type { DependencyGraph } from './dependencyGraph';
+
+export interface CalcMarkAPI {
+	tokenize(source: string): { tokens: string; error: string | null };
+	evaluate(source: string, useGlobalContext: boolean): { results: string; error: string | null };
+	evaluateDocument(
+		source: string,
+		useGlobalContext: boolean
+	): { results: string; error: string | null };
+	validate(source: string): { diagnostics: string; error: string | null };
+	classifyLines(lines: string[]): { classifications: string; error: string | null };
+	resetContext(): void;
+	getVersion(): string;
+}
+
+export type LineType = 'MARKDOWN' | 'CALCULATION' | 'BLANK';
+
+export interface LineClassification {
+	lineType: LineType;
+	line: string;
+}
+
+export interface WasmLineDiagnostics {
+	Diagnostics: Diagnostic[];
+}
+
+export type WasmDiagnosticsByLine = Record<number, WasmLineDiagnostics>;
+export type DiagnosticsByLine = Record<number, Diagnostic[]>; // 0-indexed (from validate())
+export type TokensByLine = Record<number, Token[]>; // 1-indexed
+export type VariableContext = Record<string, EvaluationResult>;
+
+/**
+ * Everything the editor needs to render a document
+ * Line numbering follows the WASM conventions documented in
+ * CalcMarkDocument.serverLineToDocumentLine().
+ */
+export interface CalcMarkResults {
+	classifications: LineClassification[];
+	tokensByLine: TokensByLine;
+	evaluationResults: EvaluationResult[];
+	diagnostics: DiagnosticsByLine;
+	variableContext: VariableContext;
+	dependencyGraph: DependencyGraph; // Keyed by 0-indexed document line
+}
+
+/**
+ * Transform WASM diagnostic structure to frontend-expected structure
+ */
+export function transformDiagnostics(wasmDiagnostics: WasmDiagnosticsByLine): DiagnosticsByLine {
+	const result: DiagnosticsByLine = {};
+	for (const [lineNumberStr, lineData] of Object.entries(wasmDiagnostics)) {
+		const lineNumber = Number(lineNumberStr);
+		result[lineNumber] = lineData.Diagnostics;
+	}
+	return result;
+}
+
+/**
+ * Find the variable assigned by a line (the IDENTIFIER before ASSIGN), if any
+ */
+export function getAssignedVariable(tokens: Token[]): string | null {
+	const assignToken = tokens.find((t) => t.type === 'ASSIGN');
+	if (!assignToken) return null;
+
+	const varToken = tokens.find((t) => t.type === 'IDENTIFIER' && t.start < assignToken.start);
+	return varToken ? varToken.value : null;
+}
+
+/**
+ * Variables referenced by a line (every IDENTIFIER except the assignment target)
+ */
+export function getReadVariables(tokens: Token[], assigns: string | null): string[] {
+	const reads = new Set<string>();
+	const assignIndex = tokens.findIndex((t) => t.type === 'ASSIGN');
+
+	tokens.forEach((token, index) => {
+		if (token.type !== 'IDENTIFIER') return;
+		// Skip the assignment target itself
+		if (assigns !== null && index < assignIndex && token.value === assigns) return;
+		reads.add(token.value);
+	});
+
+	return [...reads];
+}
+
+/**
+ * Map variable names to the result of the line that assigns them
+ * Later assignments win, matching document evaluation order.
+ */
+export function buildVariableContext(
+	evaluationResults: EvaluationResult[],
+	tokensByLine: TokensByLine
+): VariableContext {
+	const variableContext: VariableContext = {};
+
+	for (const result of evaluationResults) {
+		const tokens = tokensByLine[result.OriginalLine] || [];
+		const variable = getAssignedVariable(tokens);
+		if (variable) {
+			variableContext[variable] = result;
+		}
+	}
+
+	return variableContext;
+}
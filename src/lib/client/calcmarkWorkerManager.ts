@@ -3,6 +3,38 @@
  * Manages Web Worker lifecycle and provides async API for editor
  */
 
+import type { Token } from '$lib/state/CalcMarkDocument';
+import type { CalcMarkResults } from './calcmarkCore';
+import { getAssetUrls, type CalcMarkAssetUrls } from './assetPaths';
+import {
+	computeLineDelta,
+	splitLines,
+	type DocumentRequest,
+	type DocumentResponse,
+	type EvaluationStats,
+	type LineRange
+} from './evaluationProtocol';
+
+/**
+ * Result of an incremental update, or null if a newer version superseded it
+ */
+export type DocumentUpdateResult = {
+	version: number;
+	results: CalcMarkResults;
+	stats: EvaluationStats;
+};
+
+/**
+ * Browsers only start workers from the page's origin. A worker served from
+ * elsewhere (e.g. a CDN) is loaded through a same-origin module that imports it.
+ */
+function toSameOriginUrl(workerUrl: string): string {
+	if (new URL(workerUrl).origin === location.origin) return workerUrl;
+
+	const loader = `import ${JSON.stringify(workerUrl)};`;
+	return URL.createObjectURL(new Blob([loader], { type: 'text/javascript' }));
+}
+
 export class CalcMarkWorkerManager {
 	private worker: Worker | null = null;
 	private nextRequestId = 0;
@@ -18,7 +50,25 @@ export class CalcMarkWorkerManager {
 	private initPromise: Promise<void> | null = null;
 	private initResolve: (() => void) | null = null;
 
-	constructor() {
+	// Incremental protocol state: what the worker's copy of the document looks like
+	private documentVersion = 0;
+	private syncedVersion = 0;
+	private syncedLines: string[] | null = null;
+	private latestText = '';
+	private latestVisibleRange: LineRange | null = null;
+	private pendingUpdates = new Map<
+		number,
+		{
+			resolve: (result: DocumentUpdateResult | null) => void;
+			reject: (error: Error) => void;
+		}
+	>();
+
+	// Engine file URLs; null uses the worker and WASM bundled by Vite
+	private assets: CalcMarkAssetUrls | null;
+
+	constructor(assets: CalcMarkAssetUrls | null = getAssetUrls()) {
+		this.assets = assets;
 		if (typeof window !== 'undefined') {
 			this.initWorker();
 		}
@@ -30,13 +80,20 @@ export class CalcMarkWorkerManager {
 			this.initResolve = resolve;
 		});
 
-		// Use Vite's worker import syntax
-		this.worker = new Worker(new URL('../workers/calcmark.worker.ts', import.meta.url), {
-			type: 'module'
-		});
+		// Use Vite's worker import syntax unless the host serves the worker itself
+		this.worker = this.assets
+			? new Worker(toSameOriginUrl(this.assets.workerUrl), { type: 'module' })
+			: new Worker(new URL('../workers/calcmark.worker.ts', import.meta.url), {
+					type: 'module'
+				});
 
 		this.worker.addEventListener('message', (event) => {
-			const { type, id, results, error } = event.data;
+			const { type, id, results, tokens, error } = event.data;
+
+			if (type === 'document-result' || type === 'resync-required') {
+				this.handleDocumentResponse(event.data as DocumentResponse);
+				return;
+			}
 
 			if (type === 'init-complete') {
 				this.initialized = true;
@@ -55,8 +112,23 @@ export class CalcMarkWorkerManager {
 				}
 			}
 
+			if (type === 'tokens' && id !== undefined) {
+				const pending = this.pendingRequests.get(id);
+				if (pending) {
+					pending.resolve(tokens);
+					this.pendingRequests.delete(id);
+				}
+			}
+
 			if (type === 'error' && id !== undefined) {
 				console.error('[WorkerManager] Received error for request', id, ':', error);
+				const pendingUpdate = this.pendingUpdates.get(id);
+				if (pendingUpdate) {
+					// Worker state may be inconsistent - start over with the full text next time
+					this.syncedLines = null;
+					pendingUpdate.reject(new Error(error));
+					this.pendingUpdates.delete(id);
+				}
 				const pending = this.pendingRequests.get(id);
 				if (pending) {
 					pending.reject(new Error(error));
@@ -78,10 +150,18 @@ export class CalcMarkWorkerManager {
 				pending.reject(new Error('Worker error'));
 				this.pendingRequests.delete(id);
 			}
+			for (const [id, pending] of this.pendingUpdates) {
+				pending.reject(new Error('Worker error'));
+				this.pendingUpdates.delete(id);
+			}
+			this.syncedLines = null;
 		});
 
 		// Initialize worker
-		this.worker.postMessage({ type: 'init' });
+		this.worker.postMessage({
+			type: 'init',
+			assets: this.assets && { wasmUrl: this.assets.wasmUrl, wasmExecUrl: this.assets.wasmExecUrl }
+		});
 	}
 
 	/**
@@ -143,6 +223,136 @@ export class CalcMarkWorkerManager {
 		});
 	}
 
+	/**
+	 * Tokenize a snippet on its own, outside the document (e.g. a proposed variable name)
+	 */
+	async tokenize(source: string): Promise<Token[]> {
+		if (!this.worker) {
+			throw new Error('Worker not initialized');
+		}
+
+		const id = this.nextRequestId++;
+
+		return new Promise((resolve, reject) => {
+			this.pendingRequests.set(id, {
+				resolve: (tokens) => resolve(tokens as Token[]),
+				reject,
+				timestamp: Date.now()
+			});
+
+			this.worker!.postMessage({ type: 'tokenize', id, source });
+
+			// Timeout after 5 seconds
+			setTimeout(() => {
+				if (this.pendingRequests.has(id)) {
+					this.pendingRequests.delete(id);
+					reject(new Error('Tokenize timeout'));
+				}
+			}, 5000);
+		});
+	}
+
+	/**
+	 * Send the latest document text to the worker using the incremental protocol
+	 *
+	 * Only the changed line range is posted. Resolves with the full result set for
+	 * this version, or null if a newer update was sent before this one completed
+	 * (stale responses are dropped rather than rendered).
+	 *
+	 * The whole document is always evaluated. `visibleRange` (0-indexed document
+	 * lines) only limits which lines' tokens are sent back.
+	 */
+	async update(
+		text: string,
+		visibleRange: LineRange | null = null
+	): Promise<DocumentUpdateResult | null> {
+		if (!this.worker) {
+			throw new Error('Worker not initialized');
+		}
+
+		const id = this.nextRequestId++;
+		const version = ++this.documentVersion;
+		this.latestText = text;
+		this.latestVisibleRange = visibleRange;
+
+		// Older updates can no longer be rendered
+		for (const [oldId, pending] of this.pendingUpdates) {
+			pending.resolve(null);
+			this.pendingUpdates.delete(oldId);
+		}
+
+		return new Promise((resolve, reject) => {
+			this.pendingUpdates.set(id, { resolve, reject });
+			this.postDocumentRequest(id, version, text);
+
+			// Timeout after 5 seconds
+			setTimeout(() => {
+				if (this.pendingUpdates.has(id)) {
+					this.pendingUpdates.delete(id);
+					this.syncedLines = null;
+					reject(new Error('Evaluation timeout'));
+				}
+			}, 5000);
+		});
+	}
+
+	/**
+	 * Post 'open' for the first sync (or after a resync), 'edit' with a line delta otherwise
+	 */
+	private postDocumentRequest(id: number, version: number, text: string) {
+		const lines = splitLines(text);
+		let message: DocumentRequest;
+
+		if (this.syncedLines === null) {
+			message = { type: 'open', id, version, text, visibleRange: this.latestVisibleRange };
+		} else {
+			message = {
+				type: 'edit',
+				id,
+				version,
+				baseVersion: this.syncedVersion,
+				delta: computeLineDelta(this.syncedLines, lines),
+				visibleRange: this.latestVisibleRange
+			};
+		}
+
+		// The worker handles messages in order, so the next delta can build on this one
+		this.syncedLines = lines;
+		this.syncedVersion = version;
+		this.worker!.postMessage(message);
+	}
+
+	private handleDocumentResponse(response: DocumentResponse) {
+		const pending = this.pendingUpdates.get(response.id);
+
+		if (response.type === 'resync-required') {
+			// Re-send the latest text in full; only the newest request is still waiting
+			this.syncedLines = null;
+			if (pending) {
+				this.pendingUpdates.delete(response.id);
+				const id = this.nextRequestId++;
+				this.pendingUpdates.set(id, pending);
+				this.postDocumentRequest(id, ++this.documentVersion, this.latestText);
+			}
+			return;
+		}
+
+		if (!pending) return;
+		this.pendingUpdates.delete(response.id);
+
+		if (response.version < this.documentVersion) {
+			// Stale: the document changed after this request was sent
+			pending.resolve(null);
+			return;
+		}
+
+		pending.resolve({
+			version: response.version,
+			results: response.results,
+			stats: response.stats
+		});
+	}
+
 	/**
 	 * Terminate the worker (cleanup)
 	 */
@@ -152,6 +362,8 @@ export class CalcMarkWorkerManager {
 			this.worker = null;
 		}
 		this.pendingRequests.clear();
+		this.pendingUpdates.clear();
+		this.syncedLines = null;
 	}
 }
 
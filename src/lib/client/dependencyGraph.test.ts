@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { buildDependencyGraph, getDownstreamLines, getUpstreamLines } from './dependencyGraph';
+import type { Token } from '$lib/state/CalcMarkDocument';
+import type { TokensByLine } from './calcmarkCore';
+
+/**
+ * Minimal tokenizer: identifiers, numbers, `=` and `+`
+ */
+function tokenize(line: string): Token[] {
+	return [...line.matchAll(/([A-Za-z_]\w*)|(\d+)|(=)|(\+)/g)].map((match) => ({
+		type: match[1] ? 'IDENTIFIER' : match[2] ? 'NUMBER' : match[3] ? 'ASSIGN' : 'PLUS',
+		value: match[0],
+		start: match.index!,
+		end: match.index! + match[0].length
+	}));
+}
+
+/**
+ * Tokens for every non-heading line, keyed 1-indexed like the worker output
+ */
+function tokensFor(lines: string[]): TokensByLine {
+	const tokensByLine: TokensByLine = {};
+	lines.forEach((line, index) => {
+		if (line && !line.startsWith('#')) tokensByLine[index + 1] = tokenize(line);
+	});
+	return tokensByLine;
+}
+
+describe('dependencyGraph', () => {
+	const lines = [
+		'# Budget', // 0
+		'rent = 1000', // 1
+		'food = 400', // 2
+		'', // 3
+		'monthly = rent + food', // 4
+		'yearly = monthly + monthly', // 5
+		'spare = 50' // 6
+	];
+	const graph = buildDependencyGraph(tokensFor(lines));
+
+	it('maps assignment lines to the lines they read and the lines reading them', () => {
+		expect(graph[4]).toMatchObject({
+			variable: 'monthly',
+			reads: ['rent', 'food'],
+			dependsOn: [1, 2],
+			usedBy: [5]
+		});
+		expect(graph[1].usedBy).toEqual([4]);
+		expect(graph[6]).toMatchObject({ variable: 'spare', reads: [], dependsOn: [], usedBy: [] });
+	});
+
+	it('keeps the identifier tokens of each line', () => {
+		expect(graph[4].identifiers.map((token) => token.value)).toEqual(['monthly', 'rent', 'food']);
+		expect(graph[4].identifiers[1]).toMatchObject({ start: 10, end: 14 });
+	});
+
+	it('only includes calculation lines', () => {
+		expect(Object.keys(graph).map(Number)).toEqual([1, 2, 4, 5, 6]);
+	});
+
+	it('resolves reads to the closest definition above', () => {
+		const redefined = buildDependencyGraph(tokensFor(['x = 1', 'y = x', 'x = x + 1', 'z = x']));
+
+		expect(redefined[1].dependsOn).toEqual([0]);
+		expect(redefined[2].dependsOn).toEqual([0]); // Reads the previous x
+		expect(redefined[3].dependsOn).toEqual([2]);
+		expect(redefined[0].usedBy).toEqual([1, 2]);
+	});
+
+	it('ignores forward references and undefined variables', () => {
+		const forward = buildDependencyGraph(tokensFor(['total = a + missing', 'a = 1']));
+
+		expect(forward[0].dependsOn).toEqual([]);
+		expect(forward[1].usedBy).toEqual([]);
+	});
+
+	it('collects transitive upstream and downstream lines', () => {
+		expect(getUpstreamLines(graph, 5)).toEqual([1, 2, 4]);
+		expect(getDownstreamLines(graph, 1)).toEqual([4, 5]);
+		expect(getUpstreamLines(graph, 6)).toEqual([]);
+		expect(getDownstreamLines(graph, 0)).toEqual([]); // Not a calculation line
+	});
+});
@@ -0,0 +1,101 @@
+/**
+ * Variable dependency graph
+ *
+ * Built from calculation-line tokens: for every calculation line, which lines
+ * define the variables it reads ("depends on") and which lines read the
+ * variable it assigns ("used by").
+ *
+ * References resolve the way the engine evaluates - top to bottom - so a read
+ * points at the closest assignment ABOVE it. Reads with no earlier definition
+ * (undefined variables, forward references) produce no edge.
+ */
+
+import type { Token } from '$lib/state/CalcMarkDocument';
+import { getAssignedVariable, getReadVariables, type TokensByLine } from './calcmarkCore';
+
+export interface LineDependencies {
+	variable: string | null; // Variable assigned on this line
+	reads: string[]; // Variables referenced on this line
+	identifiers: Token[]; // IDENTIFIER tokens (rune positions), kept for off-screen lines
+	dependsOn: number[]; // Lines (0-indexed) defining the variables this line reads
+	usedBy: number[]; // Lines (0-indexed) reading the variable assigned here
+}
+
+/**
+ * Keyed by 0-indexed document line; only calculation lines with tokens appear
+ */
+export type DependencyGraph = Record<number, LineDependencies>;
+
+/**
+ * Build the graph from tokens of the whole document
+ *
+ * @param tokensByLine - 1-indexed, as produced by the worker
+ */
+export function buildDependencyGraph(tokensByLine: TokensByLine): DependencyGraph {
+	const graph: DependencyGraph = {};
+	const latestDefinition = new Map<string, number>();
+
+	const lineNumbers = Object.keys(tokensByLine)
+		.map(Number)
+		.sort((a, b) => a - b);
+
+	for (const serverLine of lineNumbers) {
+		const line = serverLine - 1;
+		const tokens = tokensByLine[serverLine];
+		const variable = getAssignedVariable(tokens);
+		const reads = getReadVariables(tokens, variable);
+
+		const dependsOn: number[] = [];
+		for (const name of reads) {
+			const definition = latestDefinition.get(name);
+			if (definition === undefined || dependsOn.includes(definition)) continue;
+			dependsOn.push(definition);
+			graph[definition].usedBy.push(line);
+		}
+		dependsOn.sort((a, b) => a - b);
+
+		const identifiers = tokens.filter((token) => token.type === 'IDENTIFIER');
+		graph[line] = { variable, reads, identifiers, dependsOn, usedBy: [] };
+
+		// Assign after resolving reads: `x = x + 1` reads the previous x
+		if (variable) latestDefinition.set(variable, line);
+	}
+
+	return graph;
+}
+
+/**
+ * Every line the given line transitively depends on (sorted, excluding itself)
+ */
+export function getUpstreamLines(graph: DependencyGraph, line: number): number[] {
+	return collect(graph, line, (entry) => entry.dependsOn);
+}
+
+/**
+ * Every line that transitively depends on the given line (sorted, excluding itself)
+ */
+export function getDownstreamLines(graph: DependencyGraph, line: number): number[] {
+	return collect(graph, line, (entry) => entry.usedBy);
+}
+
+function collect(
+	graph: DependencyGraph,
+	start: number,
+	next: (entry: LineDependencies) => number[]
+): number[] {
+	const seen = new Set<number>([start]);
+	const pending = [start];
+
+	while (pending.length > 0) {
+		const entry = graph[pending.pop()!];
+		if (!entry) continue;
+		for (const line of next(entry)) {
+			if (seen.has(line)) continue;
+			seen.add(line);
+			pending.push(line);
+		}
+	}
+
+	seen.delete(start);
+	return [...seen].sort((a, b) => a - b);
+}
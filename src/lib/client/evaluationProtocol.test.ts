@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { applyLineDelta, computeLineDelta, filterTokensToRange } from './evaluationProtocol';
+
+describe('evaluationProtocol', () => {
+	describe('computeLineDelta', () => {
+		it('returns null for identical documents', () => {
+			expect(computeLineDelta(['a', 'b'], ['a', 'b'])).toBeNull();
+		});
+
+		it('describes a single changed line', () => {
+			expect(computeLineDelta(['a', 'b', 'c'], ['a', 'B', 'c'])).toEqual({
+				start: 1,
+				deleteCount: 1,
+				lines: ['B']
+			});
+		});
+
+		it('describes inserted lines', () => {
+			expect(computeLineDelta(['a', 'c'], ['a', 'b1', 'b2', 'c'])).toEqual({
+				start: 1,
+				deleteCount: 0,
+				lines: ['b1', 'b2']
+			});
+		});
+
+		it('describes deleted lines', () => {
+			expect(computeLineDelta(['a', 'b', 'c'], ['a'])).toEqual({
+				start: 1,
+				deleteCount: 2,
+				lines: []
+			});
+		});
+
+		it('handles repeated lines without overlapping prefix and suffix', () => {
+			const oldLines = ['x', 'x'];
+			const newLines = ['x', 'x', 'x'];
+			const delta = computeLineDelta(oldLines, newLines)!;
+
+			expect(applyLineDelta(oldLines, delta)).toEqual(newLines);
+		});
+	});
+
+	describe('applyLineDelta', () => {
+		it('round-trips arbitrary edits', () => {
+			const oldLines = ['# Budget', 'a = 1', 'b = 2', 'c = a + b'];
+			const newLines = ['# Budget', 'intro', 'a = 5', 'c = a + b', 'd = c'];
+			const delta = computeLineDelta(oldLines, newLines)!;
+
+			expect(applyLineDelta(oldLines, delta)).toEqual(newLines);
+			// The input array is not mutated
+			expect(oldLines).toHaveLength(4);
+		});
+	});
+
+	describe('filterTokensToRange', () => {
+		const token = { type: 'NUMBER', value: '1', start: 0, end: 1 };
+		const tokensByLine = { 1: [token], 5: [token], 40: [token] };
+
+		it('keeps tokens of lines inside the range (1-indexed keys, 0-indexed range)', () => {
+			expect(Object.keys(filterTokensToRange(tokensByLine, { start: 4, end: 39 }))).toEqual([
+				'5',
+				'40'
+			]);
+		});
+
+		it('keeps everything without a range', () => {
+			expect(filterTokensToRange(tokensByLine, null)).toBe(tokensByLine);
+		});
+	});
+});
@@ -0,0 +1,146 @@
+/**
+ * Incremental evaluation protocol between the editor and the CalcMark worker
+ *
+ * The worker keeps its own copy of the document. The editor sends the full text
+ * once ('open') and afterwards only line-range deltas ('edit'). Every message
+ * carries a monotonically increasing document version so that:
+ * - the worker can detect a missed message (baseVersion mismatch) and ask for a resync
+ * - the editor can drop responses for versions it has already superseded
+ */
+
+import type { CalcMarkResults, TokensByLine } from './calcmarkCore';
+
+/**
+ * Replace `deleteCount` lines starting at `start` (0-indexed) with `lines`
+ */
+export interface LineDelta {
+	start: number;
+	deleteCount: number;
+	lines: string[];
+}
+
+/**
+ * Document lines (0-indexed, inclusive) the editor is currently showing
+ */
+export interface LineRange {
+	start: number;
+	end: number;
+}
+
+export interface OpenDocumentRequest {
+	type: 'open';
+	id: number;
+	version: number;
+	text: string;
+	visibleRange: LineRange | null; // null = send tokens for every line
+}
+
+export interface EditDocumentRequest {
+	type: 'edit';
+	id: number;
+	version: number;
+	baseVersion: number; // Version the delta applies to
+	delta: LineDelta | null; // null = no text change, just re-send results
+	visibleRange: LineRange | null;
+}
+
+export type DocumentRequest = OpenDocumentRequest | EditDocumentRequest;
+
+export interface EvaluationStats {
+	mode: 'full' | 'incremental' | 'cached';
+	totalLines: number;
+	dirtyLines: number; // Lines whose result had to be recomputed
+	evaluatedLines: number; // Lines sent to the engine (dirty lines + their dependencies)
+}
+
+export interface DocumentResultResponse {
+	type: 'document-result';
+	id: number;
+	version: number;
+	results: CalcMarkResults;
+	stats: EvaluationStats;
+}
+
+export interface ResyncRequiredResponse {
+	type: 'resync-required';
+	id: number;
+	version: number;
+}
+
+export type DocumentResponse = DocumentResultResponse | ResyncRequiredResponse;
+
+/**
+ * Compute the line-range delta that turns `oldLines` into `newLines`
+ * Trims the common leading and trailing lines; the middle is replaced.
+ *
+ * @returns null when both are identical
+ */
+export function computeLineDelta(oldLines: string[], newLines: string[]): LineDelta | null {
+	let prefix = 0;
+	const maxPrefix = Math.min(oldLines.length, newLines.length);
+	while (prefix < maxPrefix && oldLines[prefix] === newLines[prefix]) {
+		prefix++;
+	}
+
+	if (prefix === oldLines.length && prefix === newLines.length) {
+		return null;
+	}
+
+	let suffix = 0;
+	const maxSuffix = maxPrefix - prefix;
+	while (
+		suffix < maxSuffix &&
+		oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+	) {
+		suffix++;
+	}
+
+	return {
+		start: prefix,
+		deleteCount: oldLines.length - prefix - suffix,
+		lines: newLines.slice(prefix, newLines.length - suffix)
+	};
+}
+
+/**
+ * Apply a delta to a list of lines (returns a new array)
+ */
+export function applyLineDelta(lines: string[], delta: LineDelta): string[] {
+	const result = lines.slice();
+	result.splice(delta.start, delta.deleteCount, ...delta.lines);
+	return result;
+}
+
+/**
+ * Split document text into lines the same way everywhere
+ * Matches processCalcMark(): an empty document is a single empty line.
+ */
+export function splitLines(text: string): string[] {
+	return text.split('\n');
+}
+
+/**
+ * Keep only the tokens of lines inside `range`
+ *
+ * The worker always evaluates the whole document, but syntax-highlighting
+ * tokens are only needed for lines on screen. Skipping the rest keeps the
+ * response small for long documents.
+ *
+ * @param tokensByLine - 1-indexed, as produced by the worker
+ * @param range - 0-indexed document lines, or null to keep everything
+ */
+export function filterTokensToRange(
+	tokensByLine: TokensByLine,
+	range: LineRange | null
+): TokensByLine {
+	if (!range) return tokensByLine;
+
+	const filtered: TokensByLine = {};
+	for (const [lineStr, tokens] of Object.entries(tokensByLine)) {
+		const line = Number(lineStr) - 1;
+		if (line >= range.start && line <= range.end) {
+			filtered[Number(lineStr)] = tokens;
+		}
+	}
+	return filtered;
+}
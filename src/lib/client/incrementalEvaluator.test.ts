@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { IncrementalEvaluator, hashLine } from './incrementalEvaluator';
+import { computeLineDelta } from './evaluationProtocol';
+import { createFakeApi } from './__tests__/fakeCalcMarkApi';
+
+const DOC = `# Budget
+a = 10
+b = 20
+c = a + b
+d = 5
+total = c * 2
+e = 1
+f = 2
+g = 3`;
+
+describe('IncrementalEvaluator', () => {
+	let fake: ReturnType<typeof createFakeApi>;
+	let evaluator: IncrementalEvaluator;
+	let lines: string[];
+	let version: number;
+
+	function edit(newText: string) {
+		const newLines = newText.split('\n');
+		const delta = computeLineDelta(lines, newLines);
+		expect(evaluator.applyDelta(delta, version, version + 1)).toBe(true);
+		lines = newLines;
+		version++;
+		return evaluator.evaluate();
+	}
+
+	function valueOf(results: ReturnType<IncrementalEvaluator['evaluate']>['results'], line: number) {
+		return results.evaluationResults.find((r) => r.OriginalLine === line + 1)?.Value.Value;
+	}
+
+	beforeEach(() => {
+		fake = createFakeApi();
+		evaluator = new IncrementalEvaluator(fake.api);
+		lines = DOC.split('\n');
+		version = 0;
+		evaluator.open(DOC, version);
+	});
+
+	it('evaluates the whole document on open', () => {
+		const { results, stats } = evaluator.evaluate();
+
+		expect(stats.mode).toBe('full');
+		expect(results.classifications).toHaveLength(9);
+		expect(results.classifications[0].lineType).toBe('MARKDOWN');
+		expect(valueOf(results, 3)).toBe(30);
+		expect(valueOf(results, 5)).toBe(60);
+		expect(results.variableContext.total.Value.Value).toBe(60);
+		expect(results.tokensByLine[2][0]).toMatchObject({ type: 'IDENTIFIER', value: 'a' });
+	});
+
+	it('re-evaluates only the edited line and its dependents', () => {
+		evaluator.evaluate();
+		fake.calls.evaluate.length = 0;
+
+		const { results, stats } = edit(DOC.replace('a = 10', 'a = 11'));
+
+		expect(stats.mode).toBe('incremental');
+		// a, c and total are dirty; b is pulled in as a dependency of c; d is untouched
+		expect(stats.dirtyLines).toBe(3);
+		expect(fake.calls.evaluate).toEqual(['a = 11\nb = 20\nc = a + b\ntotal = c * 2']);
+		expect(valueOf(results, 3)).toBe(31);
+		expect(valueOf(results, 5)).toBe(62);
+		expect(valueOf(results, 4)).toBe(5);
+	});
+
+	it('does not touch the engine when only markdown changes', () => {
+		evaluator.evaluate();
+		fake.calls.evaluate.length = 0;
+
+		const { results, stats } = edit(DOC.replace('# Budget', '# Monthly Budget'));
+
+		expect(stats.mode).toBe('cached');
+		expect(fake.calls.evaluate).toHaveLength(0);
+		expect(valueOf(results, 5)).toBe(60);
+	});
+
+	it('serves classification and tokens from the content cache', () => {
+		evaluator.evaluate();
+		fake.calls.tokenize.length = 0;
+		fake.calls.classifyLines.length = 0;
+
+		// Move a line: its content is unchanged, so nothing needs re-tokenizing
+		edit(DOC.replace('a = 10\nb = 20\nc = a + b\nd = 5', 'd = 5\na = 10\nb = 20\nc = a + b'));
+
+		expect(fake.calls.classifyLines).toHaveLength(0);
+		expect(fake.calls.tokenize).toHaveLength(0);
+	});
+
+	it('keeps line numbers correct after inserting lines', () => {
+		evaluator.evaluate();
+
+		const { results } = edit(DOC.replace('# Budget', '# Budget\n\nIntro text'));
+
+		expect(valueOf(results, 5)).toBe(30); // c moved from line 3 to 5
+		expect(valueOf(results, 7)).toBe(60);
+		expect(valueOf(results, 3)).toBe(10);
+	});
+
+	it('marks readers dirty when a definition is deleted', () => {
+		evaluator.evaluate();
+
+		const { results } = edit(DOC.replace('b = 20\n', ''));
+
+		// c now reads an undefined variable
+		expect(valueOf(results, 2)).toBeUndefined();
+		expect(results.diagnostics[2][0].message).toBe('Undefined variable: b');
+	});
+
+	it('falls back to a full evaluation when most lines are dirty', () => {
+		evaluator.evaluate();
+
+		const { stats } = edit('x = 1\ny = 2');
+
+		expect(stats.mode).toBe('full');
+	});
+
+	it('never evaluates lines inside a code fence', () => {
+		evaluator.open('a = 1\n```\nb = a + 1\n```\nc = a + 2', version);
+
+		const { results } = evaluator.evaluate();
+
+		expect(results.classifications.map((c) => c.lineType)).toEqual([
+			'CALCULATION',
+			'MARKDOWN',
+			'MARKDOWN',
+			'MARKDOWN',
+			'CALCULATION'
+		]);
+		expect(results.tokensByLine[3]).toBeUndefined();
+		expect(results.variableContext.b).toBeUndefined();
+		expect(valueOf(results, 4)).toBe(3);
+		// Blanked for the engine, so line numbers still match
+		expect(fake.calls.evaluate).toEqual(['a = 1\n\n\n\nc = a + 2']);
+	});
+
+	it('re-evaluates unedited lines when a fence opens or closes above them', () => {
+		evaluator.evaluate();
+
+		let { results } = edit(DOC.replace('c = a + b\n', '```\nc = a + b\n```\n'));
+		expect(results.variableContext.c).toBeUndefined();
+		expect(results.diagnostics[7][0].message).toBe('Undefined variable: c');
+
+		({ results } = edit(DOC));
+		expect(valueOf(results, 3)).toBe(30);
+		expect(valueOf(results, 5)).toBe(60);
+	});
+
+	it('rejects deltas for an unexpected base version', () => {
+		evaluator.evaluate();
+
+		expect(evaluator.applyDelta(null, 42, 43)).toBe(false);
+		expect(evaluator.getVersion()).toBe(0);
+	});
+});
+
+describe('hashLine', () => {
+	it('is stable and distinguishes different lines', () => {
+		expect(hashLine('a = 10')).toBe(hashLine('a = 10'));
+		expect(hashLine('a = 10')).not.toBe(hashLine('a = 11'));
+	});
+});
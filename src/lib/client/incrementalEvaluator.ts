@@ -0,0 +1,479 @@
+/**
+ * Incremental CalcMark evaluator (runs inside the worker)
+ *
+ * Keeps the document as a list of line records and only does the work an edit requires:
+ * - Classification and tokens are cached by line content hash, so unchanged
+ *   (or moved, or re-typed) lines never hit the engine again
+ * - Only "dirty" lines are re-evaluated: edited lines plus every line that
+ *   transitively reads a variable whose definition changed
+ * - Dirty lines are evaluated as a minimal sub-document containing the dirty
+ *   lines and the definitions they depend on, in document order
+ *
+ * ASSUMPTION: Line classification and tokenization are context-free
+ * (they depend only on the line's own text). Evaluation and validation
+ * are context-dependent and always see every upstream definition.
+ * The one exception is fenced code: lines between ``` fences are MARKDOWN
+ * whatever they contain, so fences are re-scanned on every evaluation.
+ */
+
+import type { Diagnostic, EvaluationResult, Token } from '$lib/state/CalcMarkDocument';
+import { findCodeBlockLines } from '$lib/utils/markdownBlocks';
+import {
+	buildVariableContext,
+	getAssignedVariable,
+	getReadVariables,
+	transformDiagnostics,
+	type CalcMarkAPI,
+	type CalcMarkResults,
+	type DiagnosticsByLine,
+	type LineClassification,
+	type LineType,
+	type TokensByLine,
+	type WasmDiagnosticsByLine
+} from './calcmarkCore';
+import { buildDependencyGraph } from './dependencyGraph';
+import { splitLines, type EvaluationStats, type LineDelta } from './evaluationProtocol';
+
+/**
+ * Upper bound on cached classifications/token lists (oldest entries are evicted first)
+ */
+const MAX_CACHE_ENTRIES = 10_000;
+
+/**
+ * When more than this fraction of calculation lines is dirty, a single full
+ * evaluation is cheaper than building a sub-document
+ */
+const FULL_EVALUATION_RATIO = 0.5;
+
+interface LineRecord {
+	text: string;
+	lineType: LineType | null;
+	tokens: Token[];
+	assigns: string | null; // Variable assigned on this line
+	reads: string[]; // Variables referenced on this line
+	result: EvaluationResult | null; // OriginalLine is kept in sync with the record's position
+	diagnostics: Diagnostic[];
+	diagnosticsLine: number; // Document line the diagnostic ranges currently refer to
+	dirty: boolean; // Text is new since the last evaluation
+	inCodeBlock: boolean; // Inside a fenced code block: never classified or evaluated
+}
+
+/**
+ * 32-bit FNV-1a hash of a line, combined with its length
+ */
+export function hashLine(text: string): string {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < text.length; i++) {
+		hash ^= text.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return `${(hash >>> 0).toString(16)}:${text.length}`;
+}
+
+/**
+ * Bounded cache keyed by line content hash
+ * Entries store the original text so hash collisions can never return wrong data.
+ */
+class LineCache<T> {
+	private entries = new Map<string, { text: string; value: T }>();
+
+	get(text: string): T | undefined {
+		const entry = this.entries.get(hashLine(text));
+		return entry && entry.text === text ? entry.value : undefined;
+	}
+
+	set(text: string, value: T): void {
+		const key = hashLine(text);
+		this.entries.delete(key);
+		this.entries.set(key, { text, value });
+
+		if (this.entries.size > MAX_CACHE_ENTRIES) {
+			const oldestKey = this.entries.keys().next().value;
+			if (oldestKey !== undefined) this.entries.delete(oldestKey);
+		}
+	}
+}
+
+function createRecord(text: string): LineRecord {
+	return {
+		text,
+		lineType: null,
+		tokens: [],
+		assigns: null,
+		reads: [],
+		result: null,
+		diagnostics: [],
+		diagnosticsLine: 0,
+		dirty: true,
+		inCodeBlock: false
+	};
+}
+
+/**
+ * Move diagnostic ranges by `shift` lines (ranges use the engine's own line base)
+ */
+function shiftDiagnostics(diagnostics: Diagnostic[], shift: number): Diagnostic[] {
+	if (shift === 0) return diagnostics;
+
+	return diagnostics.map((diagnostic) =>
+		diagnostic.range
+			? {
+					...diagnostic,
+					range: {
+						start: { ...diagnostic.range.start, line: diagnostic.range.start.line + shift },
+						end: { ...diagnostic.range.end, line: diagnostic.range.end.line + shift }
+					}
+				}
+			: diagnostic
+	);
+}
+
+export class IncrementalEvaluator {
+	private api: CalcMarkAPI;
+	private records: LineRecord[] = [];
+	private version = -1;
+	private needsFullEvaluation = true;
+	// Variables whose definition was added, removed or changed since the last evaluation
+	private invalidatedNames = new Set<string>();
+	private classificationCache = new LineCache<LineType>();
+	private tokenCache = new LineCache<Token[]>();
+
+	constructor(api: CalcMarkAPI) {
+		this.api = api;
+	}
+
+	getVersion(): number {
+		return this.version;
+	}
+
+	getLineCount(): number {
+		return this.records.length;
+	}
+
+	/**
+	 * Replace the whole document (first load or resync)
+	 * Caches survive, so re-opening a known document is still cheap.
+	 */
+	open(text: string, version: number): void {
+		this.records = splitLines(text).map(createRecord);
+		this.version = version;
+		this.needsFullEvaluation = true;
+		this.invalidatedNames.clear();
+	}
+
+	/**
+	 * Apply a line delta on top of `baseVersion`
+	 * @returns false if the evaluator is not at `baseVersion` (caller must resync)
+	 */
+	applyDelta(delta: LineDelta | null, baseVersion: number, version: number): boolean {
+		if (baseVersion !== this.version) {
+			return false;
+		}
+
+		if (delta) {
+			const removed = this.records.splice(
+				delta.start,
+				delta.deleteCount,
+				...delta.lines.map(createRecord)
+			);
+			for (const record of removed) {
+				if (record.assigns) this.invalidatedNames.add(record.assigns);
+			}
+		}
+
+		this.version = version;
+		return true;
+	}
+
+	/**
+	 * Bring all line data up to date and return the full result set
+	 */
+	evaluate(): { results: CalcMarkResults; stats: EvaluationStats } {
+		this.applyCodeBlocks();
+		this.classifyPendingLines();
+		this.tokenizeDirtyLines();
+
+		const calculationLines: number[] = [];
+		this.records.forEach((record, index) => {
+			if (record.lineType === 'CALCULATION') calculationLines.push(index);
+		});
+
+		const dirtyLines = this.collectDirtyLines();
+		const dirtyCalculations = [...dirtyLines].filter(
+			(index) => this.records[index].lineType === 'CALCULATION'
+		);
+
+		// Non-calculation lines never have results
+		for (const index of dirtyLines) {
+			if (this.records[index].lineType !== 'CALCULATION') {
+				this.records[index].result = null;
+				this.records[index].diagnostics = [];
+			}
+		}
+
+		let mode: EvaluationStats['mode'];
+		let evaluatedLines = 0;
+
+		if (
+			this.needsFullEvaluation ||
+			dirtyCalculations.length > calculationLines.length * FULL_EVALUATION_RATIO
+		) {
+			mode = 'full';
+			const allLines = this.records.map((_, index) => index);
+			this.evaluateLines(allLines, new Set(allLines));
+			evaluatedLines = this.records.length;
+		} else if (dirtyCalculations.length === 0) {
+			mode = 'cached';
+		} else {
+			mode = 'incremental';
+			const subDocument = this.collectUpstreamClosure(dirtyCalculations);
+			this.evaluateLines(subDocument, new Set(dirtyCalculations));
+			evaluatedLines = subDocument.length;
+		}
+
+		for (const record of this.records) {
+			record.dirty = false;
+		}
+		this.invalidatedNames.clear();
+		this.needsFullEvaluation = false;
+
+		return {
+			results: this.buildResults(),
+			stats: {
+				mode,
+				totalLines: this.records.length,
+				dirtyLines: dirtyLines.size,
+				evaluatedLines
+			}
+		};
+	}
+
+	// === Private helpers ===
+
+	/**
+	 * Force fenced code to MARKDOWN; lines leaving a fence get classified again
+	 * Opening or closing a fence changes lines without editing them, so they are marked dirty here.
+	 */
+	private applyCodeBlocks(): void {
+		const codeLines = findCodeBlockLines(this.records.map((record) => record.text));
+
+		this.records.forEach((record, index) => {
+			const inCodeBlock = codeLines.has(index);
+			if (inCodeBlock === record.inCodeBlock) return;
+
+			record.inCodeBlock = inCodeBlock;
+			record.lineType = inCodeBlock ? 'MARKDOWN' : null;
+			record.dirty = true;
+			// A definition that moved into a code block no longer exists
+			if (record.assigns) this.invalidatedNames.add(record.assigns);
+		});
+	}
+
+	/**
+	 * Classify every line without a classification, batching cache misses into one call
+	 */
+	private classifyPendingLines(): void {
+		const misses: number[] = [];
+
+		this.records.forEach((record, index) => {
+			if (record.lineType !== null) return;
+			const cached = this.classificationCache.get(record.text);
+			if (cached) {
+				record.lineType = cached;
+				record.dirty = true;
+			} else {
+				misses.push(index);
+			}
+		});
+
+		if (misses.length === 0) return;
+
+		const classifyResult = this.api.classifyLines(misses.map((index) => this.records[index].text));
+		const classifications: LineClassification[] = classifyResult.error
+			? []
+			: JSON.parse(classifyResult.classifications);
+
+		misses.forEach((recordIndex, i) => {
+			const classification = classifications[i];
+			if (!classification) return; // Retried on the next evaluation
+			const record = this.records[recordIndex];
+			record.lineType = classification.lineType;
+			record.dirty = true;
+			this.classificationCache.set(record.text, classification.lineType);
+		});
+	}
+
+	/**
+	 * Tokenize new calculation lines (cache first) and record what they assign/read
+	 */
+	private tokenizeDirtyLines(): void {
+		for (const record of this.records) {
+			if (!record.dirty) continue;
+
+			if (record.lineType === 'CALCULATION') {
+				let tokens = this.tokenCache.get(record.text);
+				if (!tokens) {
+					const tokenResult = this.api.tokenize(record.text);
+					tokens = !tokenResult.error && tokenResult.tokens ? JSON.parse(tokenResult.tokens) : [];
+					this.tokenCache.set(record.text, tokens!);
+				}
+				record.tokens = tokens!;
+			} else {
+				record.tokens = [];
+			}
+
+			record.assigns = getAssignedVariable(record.tokens);
+			record.reads = getReadVariables(record.tokens, record.assigns);
+
+			// A new or changed definition affects every reader of that variable
+			if (record.assigns) this.invalidatedNames.add(record.assigns);
+		}
+	}
+
+	/**
+	 * Dirty lines = new lines + transitive readers of invalidated variables
+	 */
+	private collectDirtyLines(): Set<number> {
+		const dirty = new Set<number>();
+
+		this.records.forEach((record, index) => {
+			if (record.dirty || this.needsFullEvaluation) dirty.add(index);
+		});
+
+		if (this.needsFullEvaluation) return dirty;
+
+		const readers = new Map<string, number[]>();
+		this.records.forEach((record, index) => {
+			for (const name of record.reads) {
+				const list = readers.get(name);
+				if (list) list.push(index);
+				else readers.set(name, [index]);
+			}
+		});
+
+		const pending = [...this.invalidatedNames];
+		const seen = new Set(pending);
+
+		while (pending.length > 0) {
+			const name = pending.pop()!;
+			for (const index of readers.get(name) ?? []) {
+				dirty.add(index);
+				const assigns = this.records[index].assigns;
+				if (assigns && !seen.has(assigns)) {
+					seen.add(assigns);
+					pending.push(assigns);
+				}
+			}
+		}
+
+		return dirty;
+	}
+
+	/**
+	 * Dirty lines plus every earlier definition they (transitively) read, in document order
+	 */
+	private collectUpstreamClosure(lines: number[]): number[] {
+		const definitions = new Map<string, number[]>();
+		this.records.forEach((record, index) => {
+			if (!record.assigns) return;
+			const list = definitions.get(record.assigns);
+			if (list) list.push(index);
+			else definitions.set(record.assigns, [index]);
+		});
+
+		const included = new Set(lines);
+		const pending = [...lines];
+
+		while (pending.length > 0) {
+			const index = pending.pop()!;
+			for (const name of this.records[index].reads) {
+				for (const definition of definitions.get(name) ?? []) {
+					if (definition < index && !included.has(definition)) {
+						included.add(definition);
+						pending.push(definition);
+					}
+				}
+			}
+		}
+
+		return [...included].sort((a, b) => a - b);
+	}
+
+	/**
+	 * Evaluate and validate `lines` as one source, storing results for `targets`
+	 */
+	private evaluateLines(lines: number[], targets: Set<number>): void {
+		// Code blocks are blanked (not removed) so line numbers stay the same
+		const source = lines
+			.map((index) => (this.records[index].inCodeBlock ? '' : this.records[index].text))
+			.join('\n');
+
+		this.api.resetContext();
+		const evalResult = this.api.evaluateDocument(source, true);
+		const evaluationResults: EvaluationResult[] = evalResult.error
+			? []
+			: JSON.parse(evalResult.results);
+
+		const validateResult = this.api.validate(source);
+		const rawDiagnostics: WasmDiagnosticsByLine = validateResult.error
+			? {}
+			: JSON.parse(validateResult.diagnostics);
+		const diagnostics = transformDiagnostics(rawDiagnostics);
+
+		for (const index of targets) {
+			this.records[index].result = null;
+			this.records[index].diagnostics = [];
+		}
+
+		// evaluateDocument() is 1-indexed
+		for (const result of evaluationResults) {
+			const documentLine = lines[result.OriginalLine - 1];
+			if (documentLine !== undefined && targets.has(documentLine)) {
+				this.records[documentLine].result = { ...result, OriginalLine: documentLine + 1 };
+			}
+		}
+
+		// validate() is 0-indexed
+		for (const [lineStr, lineDiagnostics] of Object.entries(diagnostics)) {
+			const sourceLine = Number(lineStr);
+			const documentLine = lines[sourceLine];
+			if (documentLine !== undefined && targets.has(documentLine)) {
+				const record = this.records[documentLine];
+				record.diagnostics = shiftDiagnostics(lineDiagnostics, documentLine - sourceLine);
+				record.diagnosticsLine = documentLine;
+			}
+		}
+	}
+
+	private buildResults(): CalcMarkResults {
+		const classifications: LineClassification[] = [];
+		const tokensByLine: TokensByLine = {};
+		const evaluationResults: EvaluationResult[] = [];
+		const diagnostics: DiagnosticsByLine = {};
+
+		this.records.forEach((record, index) => {
+			// Lines may have moved since they were evaluated - renumber cached data
+			if (record.result && record.result.OriginalLine !== index + 1) {
+				record.result = { ...record.result, OriginalLine: index + 1 };
+			}
+			if (record.diagnosticsLine !== index) {
+				record.diagnostics = shiftDiagnostics(record.diagnostics, index - record.diagnosticsLine);
+				record.diagnosticsLine = index;
+			}
+
+			classifications.push({ lineType: record.lineType ?? 'MARKDOWN', line: record.text });
+			if (record.tokens.length > 0) tokensByLine[index + 1] = record.tokens;
+			if (record.result) evaluationResults.push(record.result);
+			if (record.diagnostics.length > 0) diagnostics[index] = record.diagnostics;
+		});
+
+		return {
+			classifications,
+			tokensByLine,
+			evaluationResults,
+			diagnostics,
+			variableContext: buildVariableContext(evaluationResults, tokensByLine),
+			dependencyGraph: buildDependencyGraph(tokensByLine)
+		};
+	}
+}
@@ -9,3 +9,50 @@
  * to ensure evaluation has completed.
  */
 export const USER_INPUT_DEBOUNCE_MS = 150;
+
+/**
+ * Debounce delay before an edited document is autosaved to IndexedDB (in milliseconds)
+ */
+export const AUTOSAVE_DEBOUNCE_MS = 500;
+
+/**
+ * Starting text for documents created with "New"
+ */
+export const NEW_DOCUMENT_TEXT = '# Untitled\n\n';
+
+/**
+ * Sample budget document offered on the document list
+ */
+export const SAMPLE_DOCUMENT = `# Budget Calculator
+
+## Income
+monthly_salary = $5000
+bonus = $500
+total_income = monthly_salary + bonus
+
+## Expenses
+rent = $1500
+food = $800
+utilities = $200
+total_expenses = rent + food + utilities
+
+## Summary
+leftover = total_income - total_expenses
+
+> This is a simple budget calculator written in CalcMark.`;
+
+/**
+ * Maximum number of undo transactions kept per document
+ */
+export const UNDO_HISTORY_LIMIT = 200;
+
+/**
+ * Consecutive typing within this window is merged into one undo step (in milliseconds)
+ */
+export const UNDO_GROUP_DELAY_MS = 1000;
+
+/**
+ * Share links longer than this (in characters) get a warning: chat apps, email
+ * clients and some browsers cut off or reject very long URLs
+ */
+export const SHARE_URL_WARNING_LENGTH = 2000;
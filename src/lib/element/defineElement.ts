@@ -0,0 +1,46 @@
+/**
+ * Registration of the <calcdown-editor> custom element
+ *
+ * The element is imported lazily, so importing the library in Node or during
+ * SSR never touches `customElements` or the DOM.
+ */
+
+import { setAssetBasePath } from '$lib/client/assetPaths';
+import themeCss from '$lib/styles/calcmark-theme.css?inline';
+import typographyCss from '$lib/styles/typography.css?inline';
+
+export interface DefineCalcdownEditorOptions {
+	/**
+	 * Directory serving calcmark.worker.js, calcmark.wasm and wasm_exec.js
+	 * (the output of `npm run build:element`). Relative paths resolve against
+	 * the page. Defaults to the directory of this module.
+	 */
+	basePath?: string | URL;
+}
+
+/**
+ * Add the editor stylesheets to the page once
+ */
+function injectStyles() {
+	if (document.getElementById('calcdown-editor-styles')) return;
+
+	const style = document.createElement('style');
+	style.id = 'calcdown-editor-styles';
+	style.textContent = `${typographyCss}\n${themeCss}`;
+	document.head.append(style);
+}
+
+/**
+ * Register <calcdown-editor> (safe to call more than once)
+ */
+export async function defineCalcdownEditor(
+	options: DefineCalcdownEditorOptions = {}
+): Promise<void> {
+	setAssetBasePath(options.basePath ?? new URL(/* @vite-ignore */ './', import.meta.url));
+	injectStyles();
+
+	if (!customElements.get('calcdown-editor')) {
+		// Compiled with `customElement: true` (see svelte.config.js), importing defines the tag
+		await import('./CalcdownEditor.element.svelte');
+	}
+}
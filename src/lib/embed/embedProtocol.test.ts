@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { collectEmbedValues, parseEmbedRequest } from './embedProtocol';
+
+describe('parseEmbedRequest', () => {
+	it('should accept set-text with a string', () => {
+		expect(parseEmbedRequest({ type: 'calcdown:set-text', text: 'a = 1' })).toEqual({
+			type: 'calcdown:set-text',
+			text: 'a = 1'
+		});
+	});
+
+	it('should accept get-values with or without a request id', () => {
+		expect(parseEmbedRequest({ type: 'calcdown:get-values', requestId: 7 })).toEqual({
+			type: 'calcdown:get-values',
+			requestId: 7
+		});
+		expect(parseEmbedRequest({ type: 'calcdown:get-values' })).toEqual({
+			type: 'calcdown:get-values',
+			requestId: undefined
+		});
+	});
+
+	it('should drop unknown fields', () => {
+		expect(parseEmbedRequest({ type: 'calcdown:set-text', text: '', extra: true })).toEqual({
+			type: 'calcdown:set-text',
+			text: ''
+		});
+	});
+
+	it('should reject malformed messages', () => {
+		expect(parseEmbedRequest(null)).toBeNull();
+		expect(parseEmbedRequest('calcdown:set-text')).toBeNull();
+		expect(parseEmbedRequest({ type: 'calcdown:set-text', text: 42 })).toBeNull();
+		expect(parseEmbedRequest({ type: 'calcdown:get-values', requestId: {} })).toBeNull();
+		expect(parseEmbedRequest({ type: 'webpackOk' })).toBeNull();
+	});
+});
+
+describe('collectEmbedValues', () => {
+	it('should convert the variable context to plain values', () => {
+		const values = collectEmbedValues({
+			rent: { OriginalLine: 3, Value: { Value: 1500, Symbol: '$' } },
+			ratio: { OriginalLine: 4, Value: { Value: 0.5 } },
+			affordable: { OriginalLine: 5, Value: { Value: true } }
+		});
+
+		expect(values.rent).toEqual({ value: 1500, symbol: '$', formatted: '$1,500', line: 3 });
+		expect(values.ratio).toMatchObject({ value: 0.5, symbol: null, line: 4 });
+		expect(values.affordable).toMatchObject({ value: true, formatted: 'true' });
+	});
+
+	it('should return an empty object for no variables', () => {
+		expect(collectEmbedValues({})).toEqual({});
+	});
+});
@@ -0,0 +1,95 @@
+/**
+ * postMessage protocol between a host page and an embedded viewer (/embed)
+ *
+ * Host → viewer:
+ * - `calcdown:set-text` replaces the source text and re-evaluates it
+ * - `calcdown:get-values` asks for the current variable values
+ *
+ * Viewer → host:
+ * - `calcdown:ready` once the viewer listens for messages
+ * - `calcdown:evaluated` after every evaluation, with all values
+ * - `calcdown:values` in reply to get-values (echoing its requestId)
+ */
+
+import type { VariableContext } from '$lib/client/calcmarkCore';
+import { formatValue } from '$lib/utils/wysiwygRenderer';
+
+export type RequestId = string | number;
+
+export interface SetTextMessage {
+	type: 'calcdown:set-text';
+	text: string;
+}
+
+export interface GetValuesMessage {
+	type: 'calcdown:get-values';
+	requestId?: RequestId;
+}
+
+export type EmbedRequest = SetTextMessage | GetValuesMessage;
+
+export interface EmbedValue {
+	value: number | boolean;
+	symbol: string | null; // Unit or currency symbol
+	formatted: string; // As shown in the viewer, e.g. "$1,500"
+	line: number; // 1-indexed line of the assignment
+}
+
+export type EmbedValues = Record<string, EmbedValue>;
+
+export interface ReadyMessage {
+	type: 'calcdown:ready';
+}
+
+export interface EvaluatedMessage {
+	type: 'calcdown:evaluated';
+	values: EmbedValues;
+}
+
+export interface ValuesMessage {
+	type: 'calcdown:values';
+	requestId?: RequestId;
+	values: EmbedValues;
+}
+
+export type EmbedResponse = ReadyMessage | EvaluatedMessage | ValuesMessage;
+
+function isRequestId(value: unknown): value is RequestId | undefined {
+	return value === undefined || typeof value === 'string' || typeof value === 'number';
+}
+
+/**
+ * Validate a message received from the host
+ * @returns null for anything that is not a well-formed viewer request
+ */
+export function parseEmbedRequest(data: unknown): EmbedRequest | null {
+	if (typeof data !== 'object' || data === null) return null;
+	const message = data as Record<string, unknown>;
+
+	if (message.type === 'calcdown:set-text' && typeof message.text === 'string') {
+		return { type: 'calcdown:set-text', text: message.text };
+	}
+	if (message.type === 'calcdown:get-values' && isRequestId(message.requestId)) {
+		return { type: 'calcdown:get-values', requestId: message.requestId };
+	}
+	return null;
+}
+
+/**
+ * Variable values in the shape sent to the host
+ * Only plain data, so every value survives structured cloning.
+ */
+export function collectEmbedValues(variableContext: VariableContext): EmbedValues {
+	const values: EmbedValues = {};
+
+	for (const [name, result] of Object.entries(variableContext)) {
+		values[name] = {
+			value: result.Value.Value,
+			symbol: result.Value.Symbol || null,
+			formatted: formatValue(result.Value),
+			line: result.OriginalLine
+		};
+	}
+
+	return values;
+}
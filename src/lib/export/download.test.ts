@@ -0,0 +1,16 @@
+import { describe, it, expect } from 'vitest';
+import { toFileName } from './download';
+
+describe('toFileName', () => {
+	it('should slugify the title', () => {
+		expect(toFileName('Q1 Budget: Rent & Food', 'html')).toBe('q1-budget-rent-food.html');
+	});
+
+	it('should keep unicode letters and drop accents', () => {
+		expect(toFileName('Café 工资', 'md')).toBe('cafe-工资.md');
+	});
+
+	it('should fall back for titles without letters or digits', () => {
+		expect(toFileName('🏠 💰', 'csv')).toBe('calcdown.csv');
+	});
+});
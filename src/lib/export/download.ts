@@ -0,0 +1,36 @@
+/**
+ * Browser file downloads for exporters
+ */
+
+/**
+ * Turn a document title into a safe file name with the given extension
+ */
+export function toFileName(title: string, extension: string): string {
+	const base = title
+		.normalize('NFKD')
+		.replace(/[\u0300-\u036f]/g, '') // Strip accents left over by NFKD
+		.replace(/[^\p{L}\p{N}]+/gu, '-')
+		.replace(/^-+|-+$/g, '')
+		.toLowerCase();
+
+	return `${base || 'calcdown'}.${extension}`;
+}
+
+/**
+ * Save `content` as a file through a temporary object URL
+ */
+export function downloadFile(fileName: string, content: string | Blob, mimeType: string): void {
+	const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType });
+	const url = URL.createObjectURL(blob);
+
+	const link = document.createElement('a');
+	link.href = url;
+	link.download = fileName;
+	link.style.display = 'none';
+	document.body.appendChild(link);
+	link.click();
+	link.remove();
+
+	// Revoke after the click has been handled
+	setTimeout(() => URL.revokeObjectURL(url), 0);
+}
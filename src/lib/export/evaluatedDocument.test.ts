@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { createEvaluatedDocument } from './evaluatedDocument';
+import type { CalcMarkResults } from '$lib/client/calcmarkCore';
+
+describe('createEvaluatedDocument', () => {
+	const text = '# Budget\nrent = 1500\ntotal = rent + x';
+	const results: CalcMarkResults = {
+		classifications: [
+			{ lineType: 'MARKDOWN', line: '# Budget' },
+			{ lineType: 'CALCULATION', line: 'rent = 1500' },
+			{ lineType: 'CALCULATION', line: 'total = rent + x' }
+		],
+		// 1-indexed
+		tokensByLine: {
+			2: [{ type: 'IDENTIFIER', value: 'rent', start: 0, end: 4 }],
+			3: [{ type: 'IDENTIFIER', value: 'total', start: 0, end: 5 }]
+		},
+		// 1-indexed
+		evaluationResults: [{ OriginalLine: 2, Value: { Value: 1500 } }],
+		// 0-indexed
+		diagnostics: { 2: [{ severity: 'error', message: 'Undefined variable x' }] },
+		variableContext: { rent: { OriginalLine: 2, Value: { Value: 1500 } } },
+		dependencyGraph: {}
+	};
+
+	it('should apply every result using the engine line conventions', () => {
+		const doc = createEvaluatedDocument(text, results);
+
+		expect(doc.getLines().map((line) => line.classification)).toEqual([
+			'MARKDOWN',
+			'CALCULATION',
+			'CALCULATION'
+		]);
+		expect(doc.getLine(1)?.tokens?.[0].value).toBe('rent');
+		expect(doc.getLine(2)?.tokens?.[0].value).toBe('total');
+		expect(doc.getLine(1)?.calculationResult?.Value.Value).toBe(1500);
+		expect(doc.getLine(2)?.diagnostics?.[0].message).toBe('Undefined variable x');
+	});
+});
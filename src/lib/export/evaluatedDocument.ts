@@ -0,0 +1,51 @@
+/**
+ * Fully evaluated documents for exporters
+ *
+ * The editor only keeps syntax tokens for the visible lines (see
+ * CalcMarkDocument.getVisibleRange()). Exporters need every line, so they work
+ * on a separate document built from a one-shot, whole-document evaluation.
+ */
+
+import { CalcMarkDocument } from '$lib/state/CalcMarkDocument';
+import type { CalcMarkResults } from '$lib/client/calcmarkCore';
+import type { CalcMarkWorkerManager } from '$lib/client/calcmarkWorkerManager';
+
+/**
+ * Build a document from `text` with every result of `results` applied
+ *
+ * @param results - processCalcMark() output for exactly this text
+ */
+export function createEvaluatedDocument(text: string, results: CalcMarkResults): CalcMarkDocument {
+	const doc = new CalcMarkDocument(text);
+
+	doc.updateClassifications(results.classifications);
+
+	for (const [lineStr, tokens] of Object.entries(results.tokensByLine)) {
+		doc.updateTokens(CalcMarkDocument.serverLineToDocumentLine(Number(lineStr), true, 0), tokens);
+	}
+
+	const diagnostics: Record<number, CalcMarkResults['diagnostics'][number]> = {};
+	for (const [lineStr, lineDiagnostics] of Object.entries(results.diagnostics)) {
+		diagnostics[CalcMarkDocument.serverLineToDocumentLine(Number(lineStr), false, 0)] =
+			lineDiagnostics;
+	}
+	doc.updateDiagnostics(diagnostics);
+
+	doc.updateEvaluationResults(results.evaluationResults, results.variableContext, 0);
+	doc.updateDependencyGraph(results.dependencyGraph);
+
+	return doc;
+}
+
+/**
+ * Evaluate `text` in one shot on the worker and build the evaluated document
+ * Does not touch the worker's incremental document state.
+ */
+export async function evaluateText(
+	text: string,
+	workerManager: CalcMarkWorkerManager
+): Promise<CalcMarkDocument> {
+	await workerManager.waitForInit();
+	const results = (await workerManager.evaluate(text)) as CalcMarkResults;
+	return createEvaluatedDocument(text, results);
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { exportToHtml } from './htmlExport';
+import type { Line } from '$lib/state/CalcMarkDocument';
+
+const lines: Line[] = [
+	{ lineNumber: 0, rawContent: '# Budget', classification: 'MARKDOWN' },
+	{
+		lineNumber: 1,
+		rawContent: 'rent = $1500',
+		classification: 'CALCULATION',
+		tokens: [
+			{ type: 'IDENTIFIER', start: 0, end: 4, value: 'rent' },
+			{ type: 'ASSIGN', start: 5, end: 6, value: '=' },
+			{ type: 'CURRENCY', start: 7, end: 12, value: '$1500' }
+		],
+		calculationResult: { OriginalLine: 2, Value: { Value: 1500, Symbol: '$' } }
+	},
+	{ lineNumber: 2, rawContent: 'is_big = rent > 1000', classification: 'CALCULATION' },
+	{ lineNumber: 3, rawContent: '', classification: 'BLANK' }
+];
+
+describe('exportToHtml', () => {
+	it('should produce a complete HTML document with the app styles inlined', () => {
+		const html = exportToHtml(lines, { title: 'Budget' });
+
+		expect(html).toMatch(/^<!doctype html>/);
+		expect(html).toContain('<title>Budget</title>');
+		expect(html).toContain('.cm-literal'); // calcmark-theme.css
+		expect(html).toContain('--font-family'); // typography.css
+	});
+
+	it('should render lines with renderLine() and inline each result', () => {
+		const html = exportToHtml(lines, { title: 'Budget' });
+
+		expect(html).toContain('<span class="cm-identifier">rent</span>');
+		expect(html).toContain('<span class="calc-result">$1,500</span>');
+		// Headings go through the markdown renderer
+		expect(html).toContain('line-markdown');
+	});
+
+	it('should only show results for lines that have one', () => {
+		const html = exportToHtml(lines, { title: 'Budget' });
+		expect(html.match(/class="calc-result"/g)).toHaveLength(1);
+	});
+
+	it('should escape the title', () => {
+		expect(exportToHtml([], { title: '<Q1> & Q2' })).toContain(
+			'<title>&lt;Q1&gt; &amp; Q2</title>'
+		);
+	});
+
+	it('should fill in {{name}} references from the variables', () => {
+		const prose: Line[] = [
+			{ lineNumber: 0, rawContent: 'Rent is {{rent}}', classification: 'MARKDOWN' }
+		];
+		const html = exportToHtml(prose, {
+			title: 'Budget',
+			variables: { rent: { OriginalLine: 2, Value: { Value: 1500, Symbol: '$' } } }
+		});
+
+		expect(html).toContain('Rent is <span class="md-value" title="rent">$1,500</span>');
+	});
+
+	it('should draw chart blocks as inline SVG below the block', () => {
+		const chart: Line[] = [
+			...lines.slice(0, 2),
+			{ lineNumber: 2, rawContent: '```chart', classification: 'MARKDOWN' },
+			{ lineNumber: 3, rawContent: 'values: rent', classification: 'MARKDOWN' },
+			{ lineNumber: 4, rawContent: '```', classification: 'MARKDOWN' }
+		];
+		const html = exportToHtml(chart, {
+			title: 'Budget',
+			variables: { rent: { OriginalLine: 2, Value: { Value: 1500, Symbol: '$' } } }
+		});
+
+		expect(html).toMatch(/```<\/span><\/span><\/div>\n<figure class="md-chart"><svg /);
+		expect(html).toContain('<title>rent: $1,500</title>');
+	});
+});
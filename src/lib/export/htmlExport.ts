@@ -0,0 +1,119 @@
+/**
+ * Standalone HTML export
+ *
+ * Renders every line with renderLine() (same output as the editor overlay),
+ * places each calculation result next to its line and inlines the app styles,
+ * so the file opens anywhere without CalcDown or the WASM engine.
+ */
+
+import { buildCharts } from '$lib/charts/charts';
+import { renderChartFigure } from '$lib/charts/chartSvg';
+import type { VariableContext } from '$lib/client/calcmarkCore';
+import type { Line } from '$lib/state/CalcMarkDocument';
+import { analyzeMarkdownBlocks, type MarkdownBlock } from '$lib/utils/markdownBlocks';
+import { escapeHtml, formatValue, renderLine } from '$lib/utils/wysiwygRenderer';
+import themeCss from '$lib/styles/calcmark-theme.css?raw';
+import typographyCss from '$lib/styles/typography.css?raw';
+
+export interface HtmlExportOptions {
+	title: string;
+	variables?: VariableContext; // Values for {{name}} references and ```chart blocks
+}
+
+// Layout of the exported page (the editor styles live in Editor.svelte)
+const EXPORT_CSS = `
+body {
+	margin: 0;
+	background: #ffffff;
+	color: #1e293b;
+}
+
+.calcmark-document {
+	max-width: 48rem;
+	margin: 0 auto;
+	padding: 2.5rem;
+	line-height: 1.75;
+	white-space: pre-wrap;
+	overflow-wrap: break-word;
+}
+
+.line {
+	display: flex;
+	align-items: baseline;
+	gap: 1.5rem;
+	min-height: 1.75em;
+}
+
+.line-content {
+	flex: 1;
+}
+
+.calc-result {
+	color: #0ea5e9;
+	font-weight: 600;
+	white-space: nowrap;
+}
+
+.line-error .line-content {
+	text-decoration: underline wavy #ef4444;
+}
+`;
+
+/**
+ * One exported line: rendered content plus its result, if any
+ */
+function exportLine(line: Line, block: MarkdownBlock, variables?: VariableContext): string {
+	const classes = ['line'];
+	if (line.classification) classes.push(`line-${line.classification.toLowerCase()}`);
+	if (line.diagnostics?.some((d) => d.severity === 'error')) classes.push('line-error');
+
+	const value = line.calculationResult?.Value;
+	const content = renderLine(line, block, variables);
+
+	// renderLine() only shows the result as a data attribute - print it as text instead
+	const result = value ? `<span class="calc-result">${escapeHtml(formatValue(value))}</span>` : '';
+
+	return `<div class="${classes.join(' ')}"><span class="line-content">${content}</span>${result}</div>`;
+}
+
+/**
+ * Export a document as a single, self-contained HTML page
+ *
+ * @param lines - Fully evaluated lines (see createEvaluatedDocument())
+ */
+export function exportToHtml(lines: Line[], options: HtmlExportOptions): string {
+	const rawLines = lines.map((line) => line.rawContent);
+	const blocks = analyzeMarkdownBlocks(rawLines);
+	// Charts go below their block, as static SVG
+	const charts = new Map(
+		buildCharts(rawLines, blocks, options.variables ?? {}).map((chart) => [chart.end, chart])
+	);
+	const body = lines
+		.map((line, index) => {
+			const html = exportLine(line, blocks[index], options.variables);
+			const chart = charts.get(index);
+			return chart ? `${html}\n${renderChartFigure(chart)}` : html;
+		})
+		.join('\n');
+
+	return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<meta name="generator" content="CalcDown" />
+<title>${escapeHtml(options.title)}</title>
+<style>
+${typographyCss}
+${themeCss}
+${EXPORT_CSS}
+</style>
+</head>
+<body>
+<main class="calcmark-document">
+${body}
+</main>
+</body>
+</html>
+`;
+}
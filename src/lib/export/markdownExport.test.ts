@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { exportToMarkdown, toInlineCode } from './markdownExport';
+import type { Line } from '$lib/state/CalcMarkDocument';
+
+function markdown(lineNumber: number, rawContent: string): Line {
+	return {
+		lineNumber,
+		rawContent,
+		classification: rawContent.trim() === '' ? 'BLANK' : 'MARKDOWN'
+	};
+}
+
+function calculation(
+	lineNumber: number,
+	rawContent: string,
+	value?: number,
+	symbol?: string
+): Line {
+	return {
+		lineNumber,
+		rawContent,
+		classification: 'CALCULATION',
+		calculationResult:
+			value === undefined
+				? undefined
+				: { OriginalLine: lineNumber + 1, Value: { Value: value, Symbol: symbol } }
+	};
+}
+
+const lines: Line[] = [
+	markdown(0, '# Budget'),
+	markdown(1, ''),
+	calculation(2, 'total_income = $5000', 5000, '$'),
+	calculation(3, 'total_expenses = $2000', 2000, '$'),
+	calculation(4, 'leftover = total_income - total_expenses', 3000, '$'),
+	markdown(5, ''),
+	markdown(6, '## Notes'),
+	markdown(7, 'Rent is **due** monthly.'),
+	calculation(8, 'is_fine = leftover > 0')
+];
+
+describe('markdownExport', () => {
+	describe('exportToMarkdown (inline)', () => {
+		it('should pass markdown through and append results to calculations', () => {
+			expect(exportToMarkdown(lines, { calculations: 'inline' })).toBe(
+				[
+					'# Budget',
+					'',
+					'`total_income = $5000` → $5,000\\',
+					'`total_expenses = $2000` → $2,000\\',
+					'`leftover = total_income - total_expenses` → $3,000',
+					'',
+					'## Notes',
+					'Rent is **due** monthly.\\',
+					'`is_fine = leftover > 0`',
+					''
+				].join('\n')
+			);
+		});
+
+		it('should break lines between calculations and prose but not around blocks', () => {
+			const mixed: Line[] = [
+				markdown(0, '## Costs'),
+				calculation(1, 'rent = $1500', 1500, '$'),
+				markdown(2, 'Paid on the 1st.'),
+				markdown(3, '- groceries'),
+				calculation(4, 'food = $800', 800, '$'),
+				markdown(5, '```')
+			];
+
+			expect(exportToMarkdown(mixed, { calculations: 'inline' })).toBe(
+				[
+					'## Costs',
+					'`rent = $1500` → $1,500\\',
+					'Paid on the 1st.',
+					'- groceries',
+					'`food = $800` → $800',
+					'```',
+					''
+				].join('\n')
+			);
+		});
+
+		it('should show boolean results', () => {
+			const booleanLine: Line = {
+				...calculation(0, 'ok = true'),
+				calculationResult: { OriginalLine: 1, Value: { Value: true } }
+			};
+			expect(exportToMarkdown([booleanLine], { calculations: 'inline' })).toBe(
+				'`ok = true` → true\n'
+			);
+		});
+	});
+
+	describe('exportToMarkdown (table)', () => {
+		it('should turn each run of calculations into a two-column table', () => {
+			expect(exportToMarkdown(lines, { calculations: 'table' })).toBe(
+				[
+					'# Budget',
+					'',
+					'| Calculation | Result |',
+					'| --- | ---: |',
+					'| `total_income = $5000` | $5,000 |',
+					'| `total_expenses = $2000` | $2,000 |',
+					'| `leftover = total_income - total_expenses` | $3,000 |',
+					'',
+					'## Notes',
+					'Rent is **due** monthly.',
+					'',
+					'| Calculation | Result |',
+					'| --- | ---: |',
+					'| `is_fine = leftover > 0` |  |',
+					''
+				].join('\n')
+			);
+		});
+
+		it('should escape pipes in table cells', () => {
+			const output = exportToMarkdown([calculation(0, 'x = a || b')], { calculations: 'table' });
+			expect(output).toContain('| `x = a \\|\\| b` |');
+		});
+	});
+
+	describe('toInlineCode', () => {
+		it('should use a longer fence for text containing backticks', () => {
+			expect(toInlineCode('a `b` c')).toBe('``a `b` c``');
+			expect(toInlineCode('`x`')).toBe('`` `x` ``');
+		});
+	});
+});
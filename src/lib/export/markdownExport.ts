@@ -0,0 +1,124 @@
+/**
+ * GitHub-flavored Markdown export
+ *
+ * Markdown lines pass through unchanged; every CALCULATION line becomes inline
+ * code followed by its formatted result, e.g.
+ *
+ *   `leftover = total_income - total_expenses` → $3,000
+ *
+ * The output needs neither CalcDown nor the WASM engine, so sheets can be
+ * pasted into PRs and wikis.
+ */
+
+import type { Line } from '$lib/state/CalcMarkDocument';
+import { formatLineResult } from './results';
+
+export interface MarkdownExportOptions {
+	/**
+	 * - inline: one `expression` → result line per calculation
+	 * - table: consecutive calculations become a Calculation | Result table;
+	 *   headings and prose end the table, so each section gets its own
+	 */
+	calculations: 'inline' | 'table';
+}
+
+const RESULT_ARROW = '→';
+
+/**
+ * Wrap text in a code span that survives backticks inside it
+ */
+export function toInlineCode(text: string): string {
+	const longestRun = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+	const fence = '`'.repeat(longestRun + 1);
+	// A space keeps a leading/trailing backtick from merging with the fence
+	const padding = text.startsWith('`') || text.endsWith('`') ? ' ' : '';
+	return `${fence}${padding}${text}${padding}${fence}`;
+}
+
+function inlineCalculation(line: Line): string {
+	const code = toInlineCode(line.rawContent.trim());
+	const result = formatLineResult(line);
+	return result === null ? code : `${code} ${RESULT_ARROW} ${result}`;
+}
+
+// Lines that start their own block: headings, list items and code fences
+const BLOCK_LINE = /^\s{0,3}(#{1,6}(\s|$)|[-*+]\s|\d{1,9}[.)]\s|```|~~~)/;
+
+/**
+ * Whether a line would run into its neighbour's paragraph
+ * Calculations always do - they are exported as inline code.
+ */
+function joinsParagraph(line: Line): boolean {
+	if (line.classification === 'CALCULATION') return true;
+	return line.rawContent.trim() !== '' && !BLOCK_LINE.test(line.rawContent);
+}
+
+function exportInline(lines: Line[]): string[] {
+	return lines.map((line, index) => {
+		const text = line.classification === 'CALCULATION' ? inlineCalculation(line) : line.rawContent;
+
+		// Keep a calculation apart from the neighbours Markdown would join it with,
+		// prose or another calculation, on both sides
+		const next = lines[index + 1];
+		if (!next || !joinsParagraph(line) || !joinsParagraph(next)) return text;
+		if (line.classification !== 'CALCULATION' && next.classification !== 'CALCULATION') {
+			return text;
+		}
+		return text.endsWith('\\') ? text : `${text}\\`;
+	});
+}
+
+/**
+ * Table cells cannot contain raw pipes, not even inside code spans
+ */
+function tableCell(text: string): string {
+	return text.replace(/\|/g, '\\|');
+}
+
+function exportTables(lines: Line[]): string[] {
+	const output: string[] = [];
+	let table: Line[] = [];
+
+	const flushTable = () => {
+		if (table.length === 0) return;
+
+		// Tables must not touch surrounding paragraphs
+		if (output.length > 0 && output[output.length - 1].trim() !== '') output.push('');
+		output.push('| Calculation | Result |', '| --- | ---: |');
+		for (const line of table) {
+			const result = formatLineResult(line) ?? '';
+			output.push(`| ${tableCell(toInlineCode(line.rawContent.trim()))} | ${tableCell(result)} |`);
+		}
+		output.push('');
+		table = [];
+	};
+
+	for (const line of lines) {
+		if (line.classification === 'CALCULATION') {
+			table.push(line);
+		} else if (line.rawContent.trim() === '' && table.length > 0) {
+			// Blank lines between calculations keep the table going
+			continue;
+		} else {
+			flushTable();
+			// The table already ends with a blank line
+			if (line.rawContent.trim() === '' && output[output.length - 1] === '') continue;
+			output.push(line.rawContent);
+		}
+	}
+	flushTable();
+
+	return output;
+}
+
+/**
+ * Export evaluated lines as Markdown
+ *
+ * Lines that have not been classified are treated as Markdown.
+ */
+export function exportToMarkdown(lines: Line[], options: MarkdownExportOptions): string {
+	const output = options.calculations === 'table' ? exportTables(lines) : exportInline(lines);
+
+	// Exactly one trailing newline
+	return output.join('\n').replace(/\n*$/, '\n');
+}
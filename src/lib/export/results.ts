@@ -0,0 +1,14 @@
+/**
+ * Calculation results as exporters present them
+ */
+
+import type { Line } from '$lib/state/CalcMarkDocument';
+import { formatValue } from '$lib/utils/wysiwygRenderer';
+
+/**
+ * The formatted result of a line, as shown in the gutter
+ * @returns null for lines without a result
+ */
+export function formatLineResult(line: Line): string | null {
+	return line.calculationResult ? formatValue(line.calculationResult.Value) : null;
+}
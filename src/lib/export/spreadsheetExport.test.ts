@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import {
+	collectCalculationRows,
+	exportToCsv,
+	exportToSpreadsheetML,
+	getHeadingText,
+	type CalculationRow
+} from './spreadsheetExport';
+import type { Line } from '$lib/state/CalcMarkDocument';
+
+const lines: Line[] = [
+	{ lineNumber: 0, rawContent: '# Budget', classification: 'MARKDOWN' },
+	{
+		lineNumber: 1,
+		rawContent: '🏠 = $1500',
+		classification: 'CALCULATION',
+		// Rune positions: 🏠 is one rune
+		tokens: [
+			{ type: 'IDENTIFIER', value: '🏠', start: 0, end: 1 },
+			{ type: 'ASSIGN', value: '=', start: 2, end: 3 },
+			{ type: 'CURRENCY', value: '$1500', start: 4, end: 9 }
+		],
+		calculationResult: { OriginalLine: 2, Value: { Value: 1500, Symbol: '$' } }
+	},
+	{ lineNumber: 2, rawContent: 'Some prose', classification: 'MARKDOWN' },
+	{
+		lineNumber: 3,
+		rawContent: '10 + 5',
+		classification: 'CALCULATION',
+		tokens: [
+			{ type: 'NUMBER', value: '10', start: 0, end: 2 },
+			{ type: 'PLUS', value: '+', start: 3, end: 4 },
+			{ type: 'NUMBER', value: '5', start: 5, end: 6 }
+		],
+		calculationResult: { OriginalLine: 4, Value: { Value: 15 } }
+	}
+];
+
+describe('spreadsheetExport', () => {
+	describe('getHeadingText', () => {
+		it('should strip the heading markers', () => {
+			expect(getHeadingText('## Monthly costs ##')).toBe('Monthly costs');
+			expect(getHeadingText('Not a heading')).toBeNull();
+		});
+	});
+
+	describe('collectCalculationRows', () => {
+		it('should split assignments and track the section heading', () => {
+			expect(collectCalculationRows(lines)).toEqual([
+				{
+					line: 2,
+					variable: '🏠',
+					expression: '$1500',
+					value: 1500,
+					symbol: '$',
+					heading: 'Budget'
+				},
+				{
+					line: 4,
+					variable: null,
+					expression: '10 + 5',
+					value: 15,
+					symbol: null,
+					heading: 'Budget'
+				}
+			]);
+		});
+	});
+
+	describe('exportToCsv', () => {
+		it('should write a header and quote fields that need it', () => {
+			const rows: CalculationRow[] = [
+				{
+					line: 3,
+					variable: 'avg',
+					expression: 'average of a, b',
+					value: 2.5,
+					symbol: null,
+					heading: 'Say "hi"'
+				}
+			];
+
+			expect(exportToCsv(rows)).toBe(
+				'Line,Variable,Expression,Value,Unit,Section\r\n' +
+					'3,avg,"average of a, b",2.5,,"Say ""hi"""\r\n'
+			);
+		});
+
+		it('should keep expressions that look like formulas as text', () => {
+			const row: CalculationRow = {
+				line: 2,
+				variable: 'net',
+				expression: '-rent + 5',
+				value: -1495,
+				symbol: '$',
+				heading: null
+			};
+
+			expect(exportToCsv([row, { ...row, expression: '=1+1', value: 2 }])).toBe(
+				'Line,Variable,Expression,Value,Unit,Section\r\n' +
+					"2,net,'-rent + 5,-1495,$,\r\n" +
+					"2,net,'=1+1,2,$,\r\n"
+			);
+		});
+	});
+
+	describe('exportToSpreadsheetML', () => {
+		it('should type values as numbers and keep expressions as text', () => {
+			const xml = exportToSpreadsheetML(collectCalculationRows(lines), { title: 'Q1: Budget' });
+
+			expect(xml).toContain('<?mso-application progid="Excel.Sheet"?>');
+			expect(xml).toContain('<Worksheet ss:Name="Q1  Budget">');
+			expect(xml).toContain('<Cell><Data ss:Type="Number">1500</Data></Cell>');
+			expect(xml).toContain('<Cell><Data ss:Type="String">10 + 5</Data></Cell>');
+			expect(xml).not.toContain('ss:Formula');
+		});
+	});
+});
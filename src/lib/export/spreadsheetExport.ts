@@ -0,0 +1,180 @@
+/**
+ * Spreadsheet exports: CSV and SpreadsheetML (Excel 2003 XML)
+ *
+ * One row per CALCULATION line. Expressions are exported as plain text, never
+ * as spreadsheet formulas - CalcMark syntax (units, currencies, `average of`)
+ * means nothing to a spreadsheet.
+ */
+
+import type { Line } from '$lib/state/CalcMarkDocument';
+import { runeToUtf16Position } from '$lib/utils/unicode';
+
+export interface CalculationRow {
+	line: number; // 1-indexed, as shown in the editor
+	variable: string | null; // Assigned variable, null for bare expressions
+	expression: string; // Source after the `=` (the whole line without assignment)
+	value: number | boolean | null; // null when the line has no result
+	symbol: string | null; // Unit or currency symbol of the result
+	heading: string | null; // Nearest preceding markdown heading
+}
+
+export const SPREADSHEET_COLUMNS = [
+	'Line',
+	'Variable',
+	'Expression',
+	'Value',
+	'Unit',
+	'Section'
+] as const;
+
+/**
+ * Text of a markdown heading line, or null for any other line
+ */
+export function getHeadingText(rawContent: string): string | null {
+	const match = /^\s{0,3}#{1,6}\s+(.+?)\s*#*\s*$/.exec(rawContent);
+	return match ? match[1] : null;
+}
+
+/**
+ * Split a calculation line into the assigned variable and its expression
+ * Uses the ASSIGN token and the IDENTIFIER directly before it.
+ */
+function splitAssignment(line: Line): { variable: string | null; expression: string } {
+	const tokens = line.tokens ?? [];
+	const assignIndex = tokens.findIndex((token) => token.type === 'ASSIGN');
+	const target = tokens[assignIndex - 1];
+
+	if (assignIndex > 0 && target.type === 'IDENTIFIER') {
+		const expressionStart = runeToUtf16Position(line.rawContent, tokens[assignIndex].end);
+		return {
+			variable: target.value,
+			expression: line.rawContent.slice(expressionStart).trim()
+		};
+	}
+
+	return { variable: null, expression: line.rawContent.trim() };
+}
+
+/**
+ * One row per calculation line, in document order
+ *
+ * @param lines - Fully evaluated lines (see createEvaluatedDocument())
+ */
+export function collectCalculationRows(lines: Line[]): CalculationRow[] {
+	const rows: CalculationRow[] = [];
+	let heading: string | null = null;
+
+	for (const line of lines) {
+		if (line.classification === 'MARKDOWN') {
+			heading = getHeadingText(line.rawContent) ?? heading;
+			continue;
+		}
+		if (line.classification !== 'CALCULATION') continue;
+
+		const result = line.calculationResult?.Value;
+		rows.push({
+			line: line.lineNumber + 1,
+			...splitAssignment(line),
+			value: result ? result.Value : null,
+			symbol: result?.Symbol || null,
+			heading
+		});
+	}
+
+	return rows;
+}
+
+/**
+ * Keep a text field from being read as a formula (e.g. `-rent + 5`, `=1+1`)
+ * Spreadsheet apps treat the leading apostrophe as a text marker.
+ */
+function textField(value: string): string {
+	return /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+}
+
+function rowValues(row: CalculationRow): string[] {
+	return [
+		String(row.line),
+		textField(row.variable ?? ''),
+		textField(row.expression),
+		row.value === null ? '' : String(row.value),
+		textField(row.symbol ?? ''),
+		textField(row.heading ?? '')
+	];
+}
+
+/**
+ * Quote a CSV field when needed (RFC 4180)
+ */
+function csvField(value: string): string {
+	return /[",\r\n]|^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Export rows as CSV with a header row (RFC 4180, CRLF line endings)
+ */
+export function exportToCsv(rows: CalculationRow[]): string {
+	return [SPREADSHEET_COLUMNS, ...rows.map(rowValues)]
+		.map((fields) => fields.map(csvField).join(','))
+		.join('\r\n')
+		.concat('\r\n');
+}
+
+function escapeXml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;');
+}
+
+function xmlCell(value: string | number | null, type: 'String' | 'Number' = 'String'): string {
+	if (value === null || value === '') return '<Cell/>';
+	return `<Cell><Data ss:Type="${type}">${escapeXml(String(value))}</Data></Cell>`;
+}
+
+/**
+ * Worksheet names: at most 31 characters, none of : \ / ? * [ ]
+ */
+function worksheetName(title: string): string {
+	return (
+		title
+			.replace(/[:\\/?*[\]]/g, ' ')
+			.trim()
+			.slice(0, 31) || 'Calculations'
+	);
+}
+
+/**
+ * Export rows as a SpreadsheetML workbook (opens in Excel, LibreOffice, Numbers)
+ * Values are typed numbers; expressions stay text so no cell becomes a formula.
+ */
+export function exportToSpreadsheetML(rows: CalculationRow[], options: { title: string }): string {
+	const header = `<Row>${SPREADSHEET_COLUMNS.map((column) => xmlCell(column)).join('')}</Row>`;
+	const body = rows.map((row) => {
+		const value =
+			typeof row.value === 'number'
+				? xmlCell(row.value, 'Number')
+				: xmlCell(row.value === null ? null : String(row.value));
+
+		return `<Row>${[
+			xmlCell(row.line, 'Number'),
+			xmlCell(row.variable),
+			xmlCell(row.expression),
+			value,
+			xmlCell(row.symbol),
+			xmlCell(row.heading)
+		].join('')}</Row>`;
+	});
+
+	return `<?xml version="1.0" encoding="UTF-8"?>
+<?mso-application progid="Excel.Sheet"?>
+<Workbook xmlns="urn:schemas-microsoft-com:office:spreadsheet" xmlns:ss="urn:schemas-microsoft-com:office:spreadsheet">
+<Worksheet ss:Name="${escapeXml(worksheetName(options.title))}">
+<Table>
+${[header, ...body].join('\n')}
+</Table>
+</Worksheet>
+</Workbook>
+`;
+}
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import {
+	buildAssignments,
+	detectDelimiter,
+	parseCsv,
+	toCalcMarkValue,
+	toVariableName
+} from './csvImport';
+
+describe('csvImport', () => {
+	describe('parseCsv', () => {
+		it('should handle quotes, escaped quotes and CRLF', () => {
+			const csv = 'name,amount\r\n"Rent, flat",1500\r\n"Say ""hi""",2\r\n\r\n';
+			expect(parseCsv(csv)).toEqual([
+				['name', 'amount'],
+				['Rent, flat', '1500'],
+				['Say "hi"', '2']
+			]);
+		});
+
+		it('should keep newlines inside quoted fields', () => {
+			expect(parseCsv('"a\nb",1')).toEqual([['a\nb', '1']]);
+		});
+
+		it('should detect semicolons and tabs', () => {
+			expect(detectDelimiter('name;amount\nrent;1,5')).toBe(';');
+			expect(detectDelimiter('name\tamount')).toBe('\t');
+			expect(parseCsv('rent;1,5')).toEqual([['rent', '1,5']]);
+		});
+	});
+
+	describe('toVariableName', () => {
+		it('should sanitize labels into identifiers', () => {
+			expect(toVariableName('Monthly Rent (net)', new Set())).toBe('monthly_rent_net');
+			expect(toVariableName('2024 bonus', new Set())).toBe('item_2024_bonus');
+			expect(toVariableName('---', new Set())).toBe('item');
+		});
+
+		it('should suffix names the engine reserves', () => {
+			expect(toVariableName('End', new Set(), new Set(['end']))).toBe('end_item');
+			expect(toVariableName('End', new Set())).toBe('end');
+		});
+
+		it('should keep unicode letters and emoji intact', () => {
+			expect(toVariableName('Größe', new Set())).toBe('größe');
+			expect(toVariableName('🍕 Pizza', new Set())).toBe('🍕_pizza');
+			expect(toVariableName('工资', new Set())).toBe('工资');
+		});
+
+		it('should avoid names that are already taken', () => {
+			const taken = new Set(['rent']);
+			expect(toVariableName('Rent', taken)).toBe('rent_2');
+			expect(toVariableName('rent', taken)).toBe('rent_3');
+		});
+	});
+
+	describe('toCalcMarkValue', () => {
+		it('should convert plain and grouped numbers', () => {
+			expect(toCalcMarkValue('42')).toBe('42');
+			expect(toCalcMarkValue('1,234.56')).toBe('1234.56');
+			expect(toCalcMarkValue('1.234,56')).toBe('1234.56');
+			expect(toCalcMarkValue('1,5')).toBe('1.5');
+			expect(toCalcMarkValue('1 500')).toBe('1500');
+		});
+
+		it('should keep currencies as CalcMark symbols', () => {
+			expect(toCalcMarkValue('$1,500')).toBe('$1500');
+			expect(toCalcMarkValue('30 €')).toBe('€30');
+			expect(toCalcMarkValue('USD 25')).toBe('$25');
+		});
+
+		it('should read negatives and percentages', () => {
+			expect(toCalcMarkValue('(50)')).toBe('-50');
+			expect(toCalcMarkValue('-$20')).toBe('-$20');
+			expect(toCalcMarkValue('$-20')).toBe('-$20');
+			expect(toCalcMarkValue('15%')).toBe('0.15');
+			expect(toCalcMarkValue('33.3%')).toBe('0.333');
+			expect(toCalcMarkValue('100%')).toBe('1');
+		});
+
+		it('should reject anything that is not an amount', () => {
+			expect(toCalcMarkValue('')).toBeNull();
+			expect(toCalcMarkValue('n/a')).toBeNull();
+			expect(toCalcMarkValue('12 apples')).toBeNull();
+			expect(toCalcMarkValue('$5%')).toBeNull();
+		});
+	});
+
+	describe('buildAssignments', () => {
+		const rows = [
+			['Item', 'Cost'],
+			['Rent', '$1,500'],
+			['Food', '$800'],
+			['Notes', 'n/a']
+		];
+
+		it('should generate assignments and report skipped rows', () => {
+			expect(
+				buildAssignments(rows, {
+					nameColumn: 0,
+					valueColumn: 1,
+					hasHeader: true,
+					includeTotal: false
+				})
+			).toEqual({
+				lines: ['rent = $1500', 'food = $800'],
+				names: ['rent', 'food'],
+				skipped: [4]
+			});
+		});
+
+		it('should append a total that avoids existing names', () => {
+			const result = buildAssignments(
+				rows,
+				{ nameColumn: 0, valueColumn: 1, hasHeader: true, includeTotal: true },
+				['total', 'rent']
+			);
+
+			expect(result.lines).toEqual(['rent_2 = $1500', 'food = $800', 'total_2 = rent_2 + food']);
+			expect(result.names).toEqual(['rent_2', 'food', 'total_2']);
+		});
+	});
+});
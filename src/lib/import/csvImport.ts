@@ -0,0 +1,249 @@
+/**
+ * CSV import: turn rows of (name, amount) into CalcMark assignments
+ * Pure functions for testability
+ *
+ * Names are iterated by rune (Array.from), the same unit the CalcMark engine
+ * uses (see unicode.ts), so emoji and other astral characters are never split.
+ */
+
+export interface CsvImportOptions {
+	nameColumn: number; // 0-indexed
+	valueColumn: number; // 0-indexed
+	hasHeader: boolean; // Skip the first row
+	includeTotal: boolean; // Append `total = a + b + ...`
+	totalName?: string;
+}
+
+export interface CsvImportResult {
+	lines: string[]; // Generated CalcMark lines
+	names: string[]; // Variables they assign, in line order (including the total)
+	skipped: number[]; // 1-indexed rows (blank lines not counted) without a usable name or amount
+}
+
+// Letters, marks, digits, underscores and emoji can all be part of a variable name
+const IDENTIFIER_CHAR = /^[\p{L}\p{M}\p{N}_\p{Extended_Pictographic}\u{FE0F}\u{200D}]$/u;
+
+const CURRENCY_SYMBOLS = ['$', '€', '£', '¥'];
+
+// ISO codes written out in CSVs, mapped to the symbols CalcMark understands
+const CURRENCY_CODES: Record<string, string> = { USD: '$', EUR: '€', GBP: '£', JPY: '¥' };
+
+/**
+ * Guess the delimiter from the first line: comma, semicolon or tab
+ * Ties go to semicolon and tab - with decimal commas (`rent;1,5`) they are the delimiter.
+ */
+export function detectDelimiter(text: string): string {
+	const firstLine = text.split(/\r?\n/, 1)[0];
+	const counts = [';', '\t', ','].map((d) => [d, firstLine.split(d).length - 1] as const);
+	counts.sort((a, b) => b[1] - a[1]);
+	return counts[0][1] > 0 ? counts[0][0] : ',';
+}
+
+/**
+ * Parse CSV text into rows of fields (RFC 4180 quoting, any line ending)
+ * Blank lines are dropped.
+ */
+export function parseCsv(text: string, delimiter: string = detectDelimiter(text)): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let field = '';
+	let quoted = false;
+
+	const endRow = () => {
+		row.push(field);
+		if (row.some((value) => value.trim() !== '')) rows.push(row);
+		row = [];
+		field = '';
+	};
+
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+
+		if (quoted) {
+			if (char === '"' && text[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				field += char;
+			}
+		} else if (char === '"') {
+			quoted = true;
+		} else if (char === delimiter) {
+			row.push(field);
+			field = '';
+		} else if (char === '\n' || char === '\r') {
+			if (char === '\r' && text[i + 1] === '\n') i++;
+			endRow();
+		} else {
+			field += char;
+		}
+	}
+
+	if (field !== '' || row.length > 0) endRow();
+	return rows;
+}
+
+/**
+ * Turn a label into a valid, unused CalcMark variable name
+ *
+ * "Monthly Rent (net)" → monthly_rent_net, "2024 bonus" → item_2024_bonus.
+ * Names already in `taken` get a numeric suffix; the result is added to `taken`.
+ *
+ * @param reserved - Names the engine does not read as a variable (keywords such
+ *   as `end`); they get an `_item` suffix
+ */
+export function toVariableName(
+	label: string,
+	taken: Set<string>,
+	reserved: ReadonlySet<string> = new Set()
+): string {
+	const runes = Array.from(label.normalize('NFC').trim().toLowerCase());
+	let name = runes
+		.map((rune) => (IDENTIFIER_CHAR.test(rune) ? rune : '_'))
+		.join('')
+		.replace(/_+/g, '_')
+		.replace(/^_|_$/g, '');
+
+	if (name === '') name = 'item';
+	if (/^\p{Nd}/u.test(name)) name = `item_${name}`;
+	if (reserved.has(name)) name = `${name}_item`;
+
+	let unique = name;
+	for (let suffix = 2; taken.has(unique); suffix++) {
+		unique = `${name}_${suffix}`;
+	}
+
+	taken.add(unique);
+	return unique;
+}
+
+/**
+ * Normalize the digits of an amount: drop grouping, use `.` for decimals
+ * Both 1,234.56 and 1.234,56 read as 1234.56; a lone separator followed by
+ * exactly three digits (1,500) is treated as grouping.
+ */
+function normalizeDigits(digits: string): string | null {
+	let text = digits.replace(/[\s_'’]/g, '');
+	const lastComma = text.lastIndexOf(',');
+	const lastDot = text.lastIndexOf('.');
+
+	if (lastComma !== -1 && lastDot !== -1) {
+		const decimal = lastComma > lastDot ? ',' : '.';
+		const grouping = decimal === ',' ? '.' : ',';
+		text = text.split(grouping).join('').replace(decimal, '.');
+	} else if (lastComma !== -1) {
+		text = /^\d{1,3}(,\d{3})+$/.test(text) ? text.replace(/,/g, '') : text.replace(',', '.');
+	} else if (/^\d{1,3}(\.\d{3}){2,}$/.test(text)) {
+		text = text.replace(/\./g, '');
+	}
+
+	return /^\d+(\.\d+)?$/.test(text) ? text.replace(/^0+(?=\d)/, '') : null;
+}
+
+/**
+ * 15 → 0.15, by moving the decimal point (no float rounding: 33.3 → 0.333)
+ */
+function divideByHundred(digits: string): string {
+	const [whole, fraction = ''] = digits.split('.');
+	const padded = whole.padStart(3, '0');
+	return `${padded.slice(0, -2)}.${padded.slice(-2)}${fraction}`
+		.replace(/^0+(?=\d)/, '')
+		.replace(/\.?0+$/, '');
+}
+
+/**
+ * Convert a spreadsheet amount into a CalcMark literal
+ *
+ * Handles currency symbols and codes before or after the number, grouping
+ * separators, decimal commas, percentages and accounting negatives `(50)`.
+ *
+ * @returns null when the text is not an amount
+ */
+export function toCalcMarkValue(raw: string): string | null {
+	let text = raw.trim();
+	let negative = false;
+	let symbol = '';
+
+	if (/^\(.*\)$/.test(text)) {
+		negative = true;
+		text = text.slice(1, -1).trim();
+	}
+	if (/^[-−]/.test(text)) {
+		negative = !negative;
+		text = text.slice(1).trim();
+	}
+
+	const code = /^([A-Z]{3})\s*|\s*([A-Z]{3})$/.exec(text);
+	if (code && CURRENCY_CODES[code[1] ?? code[2]]) {
+		symbol = CURRENCY_CODES[code[1] ?? code[2]];
+		text = text.replace(code[0], '');
+	}
+
+	for (const candidate of CURRENCY_SYMBOLS) {
+		if (text.startsWith(candidate) || text.endsWith(candidate)) {
+			if (symbol && symbol !== candidate) return null;
+			symbol = candidate;
+			text = (text.startsWith(candidate) ? text.slice(1) : text.slice(0, -1)).trim();
+		}
+	}
+
+	// A minus after the symbol: $-50
+	if (text.startsWith('-')) {
+		negative = !negative;
+		text = text.slice(1);
+	}
+
+	const percent = text.endsWith('%');
+	if (percent) text = text.slice(0, -1).trim();
+	if (percent && symbol) return null;
+
+	const digits = normalizeDigits(text);
+	if (digits === null) return null;
+
+	const literal = percent ? divideByHundred(digits) : digits;
+	return `${negative ? '-' : ''}${symbol}${literal}`;
+}
+
+/**
+ * Generate assignment lines from parsed CSV rows
+ *
+ * @param existingNames - Variables already in the document; generated names avoid them
+ * @param reservedNames - Names the engine rejects (see toVariableName())
+ */
+export function buildAssignments(
+	rows: string[][],
+	options: CsvImportOptions,
+	existingNames: Iterable<string> = [],
+	reservedNames: Iterable<string> = []
+): CsvImportResult {
+	const taken = new Set(existingNames);
+	const reserved = new Set(reservedNames);
+	const lines: string[] = [];
+	const names: string[] = [];
+	const skipped: number[] = [];
+
+	rows.forEach((row, index) => {
+		if (options.hasHeader && index === 0) return;
+
+		const label = row[options.nameColumn]?.trim() ?? '';
+		const value = toCalcMarkValue(row[options.valueColumn] ?? '');
+		if (label === '' || value === null) {
+			skipped.push(index + 1);
+			return;
+		}
+
+		const name = toVariableName(label, taken, reserved);
+		names.push(name);
+		lines.push(`${name} = ${value}`);
+	});
+
+	if (options.includeTotal && names.length > 0) {
+		const total = toVariableName(options.totalName ?? 'total', taken, reserved);
+		lines.push(`${total} = ${names.join(' + ')}`);
+		names.push(total);
+	}
+
+	return { lines, names, skipped };
+}
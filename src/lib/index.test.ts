@@ -0,0 +1,16 @@
+import { describe, it, expect } from 'vitest';
+import * as calcdown from './index';
+
+describe('library entry point', () => {
+	it('should expose the evaluation API', () => {
+		expect(typeof calcdown.evaluate).toBe('function');
+		expect(typeof calcdown.toEvaluation).toBe('function');
+		expect(typeof calcdown.CalcMarkSession).toBe('function');
+		expect(typeof calcdown.processCalcMark).toBe('function');
+	});
+
+	it('should expose the custom element and asset configuration', () => {
+		expect(typeof calcdown.defineCalcdownEditor).toBe('function');
+		expect(typeof calcdown.setAssetBasePath).toBe('function');
+	});
+});
@@ -1 +1,54 @@
-// place files you want to import through the `$lib` alias in this folder.
+/**
+ * CalcDown library entry point
+ *
+ * The supported surface for code outside this app: evaluate CalcMark
+ * documents, edit them incrementally, or embed the editor as a custom element.
+ * Anything not exported here is internal and may change without notice.
+ *
+ * Line numbers in Evaluation/EvaluatedLine are 0-indexed. The raw engine
+ * output (processCalcMark) keeps the engine's own conventions, documented on
+ * CalcMarkResults.
+ */
+
+// Evaluation
+export {
+	evaluate,
+	toEvaluation,
+	type CalcMarkValue,
+	type EvaluateOptions,
+	type EvaluatedLine,
+	type Evaluation
+} from './api/evaluation';
+export { CalcMarkSession } from './api/session';
+export type { EvaluationStats, LineDelta } from './client/evaluationProtocol';
+
+// Engine access
+export {
+	initCalcMark,
+	getCalcMark,
+	processCalcMark,
+	type WasmFiles,
+	type WasmSource
+} from './client/calcmark';
+export { getAssignedVariable } from './client/calcmarkCore';
+export type {
+	CalcMarkAPI,
+	CalcMarkResults,
+	DiagnosticsByLine,
+	LineClassification,
+	LineType,
+	TokensByLine,
+	VariableContext
+} from './client/calcmarkCore';
+export type { Diagnostic, EvaluationResult, Token } from './state/CalcMarkDocument';
+
+// Engine file locations
+export {
+	resolveAssetUrls,
+	setAssetBasePath,
+	type CalcMarkAssetUrls,
+	type WasmAssetUrls
+} from './client/assetPaths';
+
+// <calcdown-editor> custom element (for non-Svelte hosts)
+export { defineCalcdownEditor, type DefineCalcdownEditorOptions } from './element/defineElement';
@@ -0,0 +1,32 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { readWasmFiles } from './wasmFiles';
+
+describe('readWasmFiles', () => {
+	let directory: string;
+
+	beforeAll(async () => {
+		directory = await mkdtemp(join(tmpdir(), 'calcmark-wasm-'));
+		await writeFile(join(directory, 'wasm_exec.js'), 'globalThis.Go = class {};');
+		await writeFile(join(directory, 'calcmark.wasm'), new Uint8Array([0, 97, 115, 109]));
+	});
+
+	afterAll(async () => {
+		await rm(directory, { recursive: true, force: true });
+	});
+
+	it('should read the runtime as text and the engine as bytes', async () => {
+		const files = await readWasmFiles(directory);
+
+		expect(files.wasmExecCode).toBe('globalThis.Go = class {};');
+		expect(new Uint8Array(files.wasmBinary as Uint8Array)).toEqual(
+			new Uint8Array([0, 97, 115, 109])
+		);
+	});
+
+	it('should explain how to get missing files', async () => {
+		await expect(readWasmFiles(join(directory, 'missing'))).rejects.toThrow(/wasm:fetch/);
+	});
+});
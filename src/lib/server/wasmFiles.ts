@@ -0,0 +1,32 @@
+/**
+ * Load the CalcMark engine from disk (Node only)
+ *
+ * The browser path in initCalcMark() fetches URLs; Node's fetch cannot read
+ * file: URLs, so the CLI reads both files itself and passes their contents.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { ASSET_FILE_NAMES } from '$lib/client/assetPaths';
+import type { WasmFiles } from '$lib/client/calcmark';
+
+/**
+ * Read wasm_exec.js and calcmark.wasm from `directory`
+ * Rejects with a hint to run `npm run wasm:fetch` when they are missing.
+ */
+export async function readWasmFiles(directory: string): Promise<WasmFiles> {
+	try {
+		const [wasmExecCode, wasmBinary] = await Promise.all([
+			readFile(join(directory, ASSET_FILE_NAMES.wasmExec), 'utf8'),
+			readFile(join(directory, ASSET_FILE_NAMES.wasm))
+		]);
+		return { wasmExecCode, wasmBinary };
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+			throw new Error(
+				`CalcMark WASM files not found in ${directory} (run \`npm run wasm:fetch\` or pass --wasm-dir)`
+			);
+		}
+		throw error;
+	}
+}
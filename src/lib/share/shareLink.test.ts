@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { createShareUrl, decodeSharedText, encodeSharedText, getSharedPayload } from './shareLink';
+
+describe('encodeSharedText / decodeSharedText', () => {
+	it('should round-trip a document', async () => {
+		const text = '# Budget\n\nrent = $1500\nfood = $800\ntotal = rent + food';
+		expect(await decodeSharedText(await encodeSharedText(text))).toBe(text);
+	});
+
+	it('should round-trip unicode and emoji', async () => {
+		const text = '# Café ☕\n\n工资 = €3000\n🏠 = 1200';
+		expect(await decodeSharedText(await encodeSharedText(text))).toBe(text);
+	});
+
+	it('should produce URL-safe payloads', async () => {
+		const payload = await encodeSharedText('x = 1\n'.repeat(50) + '# Ümlaut ✓');
+		expect(payload).toMatch(/^[A-Za-z0-9_-]+$/);
+	});
+
+	it('should compress repetitive documents', async () => {
+		const text = 'line_item = $100 + $200\n'.repeat(100);
+		expect((await encodeSharedText(text)).length).toBeLessThan(text.length / 10);
+	});
+
+	it('should reject damaged payloads', async () => {
+		const payload = await encodeSharedText('# Budget\n\nrent = $1500');
+		await expect(decodeSharedText(payload.slice(0, 5))).rejects.toThrow();
+	});
+});
+
+describe('createShareUrl', () => {
+	it('should put the payload in the fragment of the page URL', async () => {
+		const url = new URL(await createShareUrl('a = 1', 'https://example.com/edit'));
+
+		expect(url.origin + url.pathname).toBe('https://example.com/edit');
+		expect(url.search).toBe('');
+		expect(await decodeSharedText(getSharedPayload(url.hash)!)).toBe('a = 1');
+	});
+});
+
+describe('getSharedPayload', () => {
+	it('should read the doc parameter from a hash', () => {
+		expect(getSharedPayload('#doc=abc_-1')).toBe('abc_-1');
+	});
+
+	it('should return null without a payload', () => {
+		expect(getSharedPayload('')).toBeNull();
+		expect(getSharedPayload('#other=1')).toBeNull();
+		expect(getSharedPayload('#doc=')).toBeNull();
+	});
+});
@@ -0,0 +1,77 @@
+/**
+ * Share links: a whole document compressed into the URL fragment
+ *
+ * `/edit#doc=<payload>` where the payload is the UTF-8 text, deflated
+ * (deflate-raw) and base64url-encoded. The fragment is never sent to a
+ * server, so sharing needs no backend and the text stays on the clients.
+ */
+
+const FRAGMENT_KEY = 'doc';
+
+/**
+ * Run bytes through a CompressionStream or DecompressionStream
+ */
+async function transform(
+	bytes: Uint8Array,
+	stream: CompressionStream | DecompressionStream
+): Promise<Uint8Array> {
+	const output = new Blob([bytes as BlobPart]).stream().pipeThrough(stream);
+	return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+	let binary = '';
+	// Chunked so large documents do not overflow the argument limit of fromCharCode
+	for (let i = 0; i < bytes.length; i += 0x8000) {
+		binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+	}
+	return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(encoded: string): Uint8Array {
+	const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+	const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+	return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+/**
+ * Compress document text into a URL-safe payload
+ */
+export async function encodeSharedText(text: string): Promise<string> {
+	const compressed = await transform(
+		new TextEncoder().encode(text),
+		new CompressionStream('deflate-raw')
+	);
+	return toBase64Url(compressed);
+}
+
+/**
+ * Restore document text from a payload created by encodeSharedText()
+ * Rejects when the payload is truncated or not a share payload.
+ */
+export async function decodeSharedText(payload: string): Promise<string> {
+	const decompressed = await transform(
+		fromBase64Url(payload),
+		new DecompressionStream('deflate-raw')
+	);
+	return new TextDecoder('utf-8', { fatal: true }).decode(decompressed);
+}
+
+/**
+ * Build the share link for `text`
+ *
+ * @param pageUrl - Absolute URL of the page that opens share links (the document list)
+ */
+export async function createShareUrl(text: string, pageUrl: string | URL): Promise<string> {
+	const url = new URL(pageUrl);
+	url.hash = `${FRAGMENT_KEY}=${await encodeSharedText(text)}`;
+	return url.href;
+}
+
+/**
+ * The share payload in a location hash (`#doc=...`), or null if there is none
+ */
+export function getSharedPayload(hash: string): string | null {
+	const payload = new URLSearchParams(hash.replace(/^#/, '')).get(FRAGMENT_KEY);
+	return payload || null;
+}
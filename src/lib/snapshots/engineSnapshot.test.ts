@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { serializeSnapshot, toEngineSnapshot } from './engineSnapshot';
+import { toEvaluation } from '$lib/api/evaluation';
+
+describe('toEngineSnapshot', () => {
+	const evaluation = toEvaluation('# Total\nx = 5\n\ny = x + z', {
+		classifications: [
+			{ lineType: 'MARKDOWN', line: '# Total' },
+			{ lineType: 'CALCULATION', line: 'x = 5' },
+			{ lineType: 'BLANK', line: '' },
+			{ lineType: 'CALCULATION', line: 'y = x + z' }
+		],
+		tokensByLine: {
+			2: [
+				{ type: 'IDENTIFIER', value: 'x', start: 0, end: 1 },
+				{ type: 'ASSIGN', value: '=', start: 2, end: 3 },
+				{ type: 'NUMBER', value: '5', start: 4, end: 5 }
+			]
+		},
+		evaluationResults: [{ OriginalLine: 2, Value: { Value: 5, Symbol: '' } }],
+		diagnostics: { 3: [{ severity: 'error', message: 'Undefined variable z' }] },
+		variableContext: { x: { OriginalLine: 2, Value: { Value: 5, Symbol: '' } } },
+		dependencyGraph: {}
+	});
+
+	it('should use 1-indexed lines and leave out empty fields', () => {
+		const { lines } = toEngineSnapshot(evaluation);
+
+		expect(lines[0]).toEqual({ line: 1, type: 'MARKDOWN', text: '# Total' });
+		expect(lines[1]).toMatchObject({ line: 2, value: { Value: 5, Symbol: '' } });
+		expect(lines[1].tokens).toHaveLength(3);
+		expect(lines[2]).toEqual({ line: 3, type: 'BLANK', text: '' });
+		expect(lines[3]).toEqual({
+			line: 4,
+			type: 'CALCULATION',
+			text: 'y = x + z',
+			diagnostics: [{ severity: 'error', message: 'Undefined variable z' }]
+		});
+	});
+
+	it('should serialize with tabs and a trailing newline', () => {
+		const json = serializeSnapshot(toEngineSnapshot(evaluation));
+
+		expect(json.startsWith('{\n\t"lines": [')).toBe(true);
+		expect(json.endsWith('}\n')).toBe(true);
+		expect(JSON.parse(json).values).toEqual({ x: { Value: 5, Symbol: '' } });
+	});
+});
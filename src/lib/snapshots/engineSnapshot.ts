@@ -0,0 +1,53 @@
+/**
+ * Golden snapshots of engine output
+ *
+ * fixtures.test.ts evaluates every fixtures/*.calcmark with the real WASM
+ * engine and compares the result against the .json file next to it, so a
+ * bump of calcmark-version.json shows exactly which classifications, tokens,
+ * diagnostics or values changed.
+ */
+
+import type { CalcMarkValue, Evaluation } from '$lib/api/evaluation';
+import type { LineType } from '$lib/client/calcmarkCore';
+import type { Diagnostic, Token } from '$lib/state/CalcMarkDocument';
+
+export interface SnapshotLine {
+	line: number; // 1-indexed, to match the fixture in an editor
+	type: LineType;
+	text: string;
+	tokens?: Token[];
+	diagnostics?: Diagnostic[];
+	value?: CalcMarkValue;
+}
+
+export interface EngineSnapshot {
+	lines: SnapshotLine[];
+	values: Record<string, CalcMarkValue>;
+}
+
+/**
+ * Keep only what the engine decides; empty fields are left out to keep goldens readable
+ */
+export function toEngineSnapshot(evaluation: Evaluation): EngineSnapshot {
+	return {
+		lines: evaluation.lines.map((line) => {
+			const snapshot: SnapshotLine = {
+				line: line.lineNumber + 1,
+				type: line.type,
+				text: line.text
+			};
+			if (line.tokens.length > 0) snapshot.tokens = line.tokens;
+			if (line.diagnostics.length > 0) snapshot.diagnostics = line.diagnostics;
+			if (line.value) snapshot.value = line.value;
+			return snapshot;
+		}),
+		values: evaluation.values
+	};
+}
+
+/**
+ * Golden file contents (tab-indented like the rest of the repo's JSON)
+ */
+export function serializeSnapshot(snapshot: EngineSnapshot): string {
+	return JSON.stringify(snapshot, null, '\t') + '\n';
+}
@@ -0,0 +1,43 @@
+/**
+ * Golden tests against the real engine: `npm run test:snapshots`
+ *
+ * Skipped when the WASM files have not been downloaded. After bumping
+ * calcmark-version.json, run `npm run test:snapshots:update` and review the
+ * .json diffs before committing them.
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { toEvaluation } from '$lib/api/evaluation';
+import { ASSET_FILE_NAMES } from '$lib/client/assetPaths';
+import { initCalcMark, processCalcMark } from '$lib/client/calcmark';
+import { readWasmFiles } from '$lib/server/wasmFiles';
+import { serializeSnapshot, toEngineSnapshot } from './engineSnapshot';
+
+const wasmDir =
+	process.env.CALCMARK_WASM_DIR ?? fileURLToPath(new URL('../wasm/', import.meta.url));
+const hasEngine = existsSync(join(wasmDir, ASSET_FILE_NAMES.wasm));
+
+const fixtures = import.meta.glob<string>('./fixtures/*.calcmark', {
+	query: '?raw',
+	import: 'default',
+	eager: true
+});
+
+describe.skipIf(!hasEngine)('engine snapshots', () => {
+	beforeAll(async () => {
+		await initCalcMark(await readWasmFiles(wasmDir));
+	});
+
+	for (const [path, source] of Object.entries(fixtures)) {
+		it(`should match the golden output of ${path.slice('./fixtures/'.length)}`, async () => {
+			const snapshot = toEngineSnapshot(toEvaluation(source, await processCalcMark(source)));
+
+			await expect(serializeSnapshot(snapshot)).toMatchFileSnapshot(
+				path.replace(/\.calcmark$/, '.json')
+			);
+		});
+	}
+});
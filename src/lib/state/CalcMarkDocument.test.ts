@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { CalcMarkDocument } from './CalcMarkDocument';
 import type { EvaluationResult, Token, Diagnostic } from './CalcMarkDocument';
+import { buildDependencyGraph } from '$lib/client/dependencyGraph';
 
 describe('CalcMarkDocument - Core State Management', () => {
 	describe('Initialization', () => {
@@ -55,6 +56,150 @@ describe('CalcMarkDocument - Core State Management', () => {
 		});
 	});
 
+	describe('Undo/Redo History', () => {
+		it('records an edit and undoes it', () => {
+			const doc = new CalcMarkDocument('x = 5');
+
+			doc.applyEdit('x = 50', { cursorBefore: 5, cursorAfter: 6, kind: 'typing' });
+			expect(doc.getRawText()).toBe('x = 50');
+			expect(doc.canUndo()).toBe(true);
+
+			const result = doc.undo();
+			expect(result).toEqual({ text: 'x = 5', cursor: 5 });
+			expect(doc.getRawText()).toBe('x = 5');
+			expect(doc.getLines()[0].rawContent).toBe('x = 5');
+			expect(doc.canUndo()).toBe(false);
+		});
+
+		it('redoes an undone edit and restores the cursor after it', () => {
+			const doc = new CalcMarkDocument('a = 1');
+
+			doc.applyEdit('a = 1\nb = 2', { cursorBefore: 5, cursorAfter: 11, kind: 'paste' });
+			doc.undo();
+
+			expect(doc.canRedo()).toBe(true);
+			expect(doc.redo()).toEqual({ text: 'a = 1\nb = 2', cursor: 11 });
+			expect(doc.getLines()).toHaveLength(2);
+			expect(doc.canRedo()).toBe(false);
+		});
+
+		it('returns null when there is nothing to undo or redo', () => {
+			const doc = new CalcMarkDocument('x = 5');
+			expect(doc.undo()).toBeNull();
+			expect(doc.redo()).toBeNull();
+		});
+
+		it('ignores edits that do not change the text', () => {
+			const doc = new CalcMarkDocument('x = 5');
+			expect(doc.applyEdit('x = 5', { cursorBefore: 0, cursorAfter: 0 })).toBe(false);
+			expect(doc.canUndo()).toBe(false);
+		});
+
+		it('groups consecutive typing into one transaction', () => {
+			const doc = new CalcMarkDocument('');
+
+			doc.applyEdit('x', { cursorBefore: 0, cursorAfter: 1, kind: 'typing', timestamp: 1000 });
+			doc.applyEdit('x ', { cursorBefore: 1, cursorAfter: 2, kind: 'typing', timestamp: 1100 });
+			doc.applyEdit('x =', { cursorBefore: 2, cursorAfter: 3, kind: 'typing', timestamp: 1200 });
+
+			expect(doc.undo()).toEqual({ text: '', cursor: 0 });
+			expect(doc.canUndo()).toBe(false);
+			expect(doc.redo()).toEqual({ text: 'x =', cursor: 3 });
+		});
+
+		it('starts a new transaction after a pause in typing', () => {
+			const doc = new CalcMarkDocument('', { groupDelayMs: 500 });
+
+			doc.applyEdit('x', { cursorBefore: 0, cursorAfter: 1, kind: 'typing', timestamp: 1000 });
+			doc.applyEdit('xy', { cursorBefore: 1, cursorAfter: 2, kind: 'typing', timestamp: 2000 });
+
+			expect(doc.undo()?.text).toBe('x');
+			expect(doc.undo()?.text).toBe('');
+		});
+
+		it('does not group typing at a different cursor position', () => {
+			const doc = new CalcMarkDocument('ab');
+
+			doc.applyEdit('abc', { cursorBefore: 2, cursorAfter: 3, kind: 'typing', timestamp: 0 });
+			doc.applyEdit('Xabc', { cursorBefore: 0, cursorAfter: 1, kind: 'typing', timestamp: 10 });
+
+			expect(doc.undo()?.text).toBe('abc');
+		});
+
+		it('does not group different edit kinds', () => {
+			const doc = new CalcMarkDocument('abc');
+
+			doc.applyEdit('ab', { cursorBefore: 3, cursorAfter: 2, kind: 'delete', timestamp: 0 });
+			doc.applyEdit('abd', { cursorBefore: 2, cursorAfter: 3, kind: 'typing', timestamp: 10 });
+
+			expect(doc.undo()?.text).toBe('ab');
+			expect(doc.undo()?.text).toBe('abc');
+		});
+
+		it('never groups paste edits', () => {
+			const doc = new CalcMarkDocument('');
+
+			doc.applyEdit('a', { cursorBefore: 0, cursorAfter: 1, kind: 'paste', timestamp: 0 });
+			doc.applyEdit('ab', { cursorBefore: 1, cursorAfter: 2, kind: 'paste', timestamp: 10 });
+
+			expect(doc.undo()?.text).toBe('a');
+		});
+
+		it('breakUndoGroup forces a new transaction', () => {
+			const doc = new CalcMarkDocument('');
+
+			doc.applyEdit('a', { cursorBefore: 0, cursorAfter: 1, kind: 'typing', timestamp: 0 });
+			doc.breakUndoGroup();
+			doc.applyEdit('ab', { cursorBefore: 1, cursorAfter: 2, kind: 'typing', timestamp: 10 });
+
+			expect(doc.undo()?.text).toBe('a');
+		});
+
+		it('clears the redo stack on a new edit', () => {
+			const doc = new CalcMarkDocument('a');
+
+			doc.applyEdit('ab', { cursorBefore: 1, cursorAfter: 2 });
+			doc.undo();
+			doc.applyEdit('ac', { cursorBefore: 1, cursorAfter: 2 });
+
+			expect(doc.canRedo()).toBe(false);
+		});
+
+		it('bounds the history to the configured limit', () => {
+			const doc = new CalcMarkDocument('', { limit: 3 });
+
+			for (const text of ['1', '12', '123', '1234', '12345']) {
+				doc.applyEdit(text, { cursorBefore: 0, cursorAfter: text.length, kind: 'paste' });
+			}
+
+			expect(doc.undo()?.text).toBe('1234');
+			expect(doc.undo()?.text).toBe('123');
+			expect(doc.undo()?.text).toBe('12');
+			expect(doc.undo()).toBeNull();
+		});
+
+		it('undoes edits containing emoji without corrupting surrogate pairs', () => {
+			const doc = new CalcMarkDocument('🏠 = $1500');
+
+			doc.applyEdit('🏡 = $1500', { cursorBefore: 0, cursorAfter: 2 });
+
+			expect(doc.undo()?.text).toBe('🏠 = $1500');
+		});
+
+		it('reuses metadata of unchanged lines after undo', () => {
+			const doc = new CalcMarkDocument('# Title\nx = 5');
+			doc.updateClassifications([
+				{ lineType: 'MARKDOWN', line: '# Title' },
+				{ lineType: 'CALCULATION', line: 'x = 5' }
+			]);
+
+			doc.applyEdit('# Title\nx = 6', { cursorBefore: 13, cursorAfter: 13 });
+			doc.undo();
+
+			expect(doc.getLine(0)?.classification).toBe('MARKDOWN');
+		});
+	});
+
 	describe('Classification Updates', () => {
 		it('updates line classifications from server response', () => {
 			const doc = new CalcMarkDocument('# Heading\nx = 5\nSome text');
@@ -146,6 +291,17 @@ describe('CalcMarkDocument - Core State Management', () => {
 			const line1 = doc.getLine(1);
 			expect(line1?.diagnostics).toBeUndefined();
 		});
+
+		it('clears diagnostics of lines that no longer have problems', () => {
+			const doc = new CalcMarkDocument('x = undefined_var\ny = 10');
+			doc.updateDiagnostics({ 0: [{ severity: 'error', message: 'Undefined variable' }] });
+			const versionBefore = doc.getLine(0)?.version ?? 0;
+
+			doc.updateDiagnostics({});
+
+			expect(doc.getLine(0)?.diagnostics).toBeUndefined();
+			expect(doc.getLine(0)?.version).toBe(versionBefore + 1);
+		});
 	});
 
 	describe('Evaluation Results', () => {
@@ -230,6 +386,232 @@ describe('CalcMarkDocument - Core State Management', () => {
 		});
 	});
 
+	describe('Identifier Index', () => {
+		/**
+		 * Identifier/ASSIGN tokens with RUNE positions, like the WASM tokenizer
+		 */
+		function tokenizeRunes(line: string): Token[] {
+			const runes = Array.from(line);
+			const tokens: Token[] = [];
+			let word = '';
+			const flush = (end: number) => {
+				if (word)
+					tokens.push({ type: 'IDENTIFIER', value: word, start: end - [...word].length, end });
+				word = '';
+			};
+			runes.forEach((rune, i) => {
+				if (/[\p{L}\p{Extended_Pictographic}_]/u.test(rune)) {
+					word += rune;
+					return;
+				}
+				flush(i);
+				if (rune === '=') tokens.push({ type: 'ASSIGN', value: '=', start: i, end: i + 1 });
+			});
+			flush(runes.length);
+			return tokens;
+		}
+
+		function createEvaluatedDocument(text: string): CalcMarkDocument {
+			const doc = new CalcMarkDocument(text);
+			const tokensByLine: Record<number, Token[]> = {};
+			text.split('\n').forEach((line, i) => {
+				if (line.includes('=')) tokensByLine[i + 1] = tokenizeRunes(line);
+			});
+			doc.updateDependencyGraph(buildDependencyGraph(tokensByLine));
+			return doc;
+		}
+
+		const text = [
+			'🍕 = 12',
+			'tip = 🍕 * 2',
+			'total = 🍕 + tip',
+			'total = total * 2',
+			'x = total'
+		].join('\n');
+
+		it('indexes every occurrence in UTF-16 positions', () => {
+			const doc = createEvaluatedDocument(text);
+			const pizza = doc.getIdentifierIndex().get('🍕')!;
+
+			expect(pizza.map((o) => o.line)).toEqual([0, 1, 2]);
+			// 🍕 is one rune but two UTF-16 code units
+			expect(pizza[0]).toMatchObject({ start: 0, end: 2, isDefinition: true });
+			expect(pizza[1]).toMatchObject({ start: 6, end: 8, isDefinition: false });
+		});
+
+		it('finds the identifier at a cursor position', () => {
+			const doc = createEvaluatedDocument(text);
+			const lineStart = doc.getAbsolutePosition(1, 0);
+
+			expect(doc.getIdentifierAt(lineStart + 7)?.name).toBe('🍕');
+			expect(doc.getIdentifierAt(lineStart + 4)).toBeNull(); // On '='
+		});
+
+		it('goes to the closest assignment above a reference', () => {
+			const doc = createEvaluatedDocument(text);
+
+			const fromTip = doc.findDefinition(doc.getAbsolutePosition(1, 7));
+			expect(fromTip).toMatchObject({ name: '🍕', line: 0, isDefinition: true });
+
+			// `x = total` reads the re-assignment on line 3, not line 2
+			const fromX = doc.findDefinition(doc.getAbsolutePosition(4, 5));
+			expect(fromX).toMatchObject({ name: 'total', line: 3 });
+		});
+
+		it('returns null for undefined variables', () => {
+			const doc = createEvaluatedDocument('a = missing');
+
+			expect(doc.findDefinition(doc.getAbsolutePosition(0, 5))).toBeNull();
+		});
+
+		it('finds the definition and every reference to it', () => {
+			const doc = createEvaluatedDocument(text);
+
+			const references = doc.findReferences(doc.getAbsolutePosition(2, 1));
+			// line 2 defines total and line 3 reads it; line 4 reads line 3's total, so it is excluded
+			expect(references.map((o) => [o.line, o.isDefinition])).toEqual([
+				[2, true],
+				[3, false]
+			]);
+		});
+
+		it('renames every occurrence as one undoable edit', () => {
+			const source = '# Budget with 🍕 and tip\n🍕 = 12\ntip = 🍕 * 2\ntotal = 🍕 + tip';
+			const doc = createEvaluatedDocument(source);
+			// Cursor inside `total = 🍕 + tip`, after the 🍕
+			const cursor = doc.getAbsolutePosition(3, 10);
+
+			const result = doc.renameVariable(
+				doc.getAbsolutePosition(1, 0),
+				'pizza',
+				tokenizeRunes('pizza'),
+				cursor
+			);
+
+			expect(result).toMatchObject({ ok: true, renamed: 3 });
+			// The markdown heading is not touched
+			expect(doc.getRawText()).toBe(
+				'# Budget with 🍕 and tip\npizza = 12\ntip = pizza * 2\ntotal = pizza + tip'
+			);
+			// 🍕 (2 code units) -> pizza (5) on lines 1-3 before the cursor: +3 each
+			expect(result.ok && result.cursor).toBe(cursor + 9);
+
+			expect(doc.undo()).toEqual({ text: source, cursor });
+			expect(doc.canUndo()).toBe(false);
+		});
+
+		it('refuses invalid or conflicting names', () => {
+			const doc = createEvaluatedDocument(text);
+
+			const rename = (position: number, newName: string) =>
+				doc.renameVariable(position, newName, tokenizeRunes(newName));
+
+			expect(rename(doc.getAbsolutePosition(1, 0), 'total')).toMatchObject({ ok: false });
+			expect(rename(doc.getAbsolutePosition(1, 0), 'my tip')).toMatchObject({ ok: false });
+			expect(rename(doc.getAbsolutePosition(1, 4), 'y')).toEqual({
+				ok: false,
+				error: 'No variable at the cursor'
+			});
+			expect(doc.getRawText()).toBe(text);
+		});
+
+		it('skips lines edited since the last evaluation', () => {
+			const doc = createEvaluatedDocument(text);
+			doc.updateRawText(text.replace('tip = 🍕 * 2', 'tip = 3'));
+
+			expect(
+				doc
+					.getIdentifierIndex()
+					.get('🍕')!
+					.map((o) => o.line)
+			).toEqual([0, 2]);
+		});
+	});
+
+	describe('Inserting Lines', () => {
+		it('inserts below a non-blank cursor line without splitting it', () => {
+			const doc = new CalcMarkDocument('# Budget\nrent = 10');
+			const result = doc.insertLines(3, 'a = 1\nb = 2');
+
+			expect(result.text).toBe('# Budget\na = 1\nb = 2\nrent = 10');
+			expect(result.cursor).toBe('# Budget\na = 1\nb = 2'.length);
+		});
+
+		it('replaces a blank cursor line', () => {
+			const doc = new CalcMarkDocument('# Budget\n  \nrent = 10');
+			const result = doc.insertLines(doc.getAbsolutePosition(1, 1), 'a = 1');
+
+			expect(result.text).toBe('# Budget\na = 1\nrent = 10');
+		});
+
+		it('records the insertion as one undo step', () => {
+			const doc = new CalcMarkDocument('x = 1');
+			doc.insertLines(5, 'a = 1\nb = 2');
+
+			expect(doc.undo()).toEqual({ text: 'x = 1', cursor: 5 });
+		});
+	});
+
+	describe('Number Scrubbing', () => {
+		function scrubDoc(text: string, tokens: Token[]) {
+			const doc = new CalcMarkDocument(`# Budget\n${text}`);
+			doc.updateTokens(1, tokens);
+			return doc;
+		}
+
+		it('finds the literal at a cursor position in UTF-16 positions', () => {
+			const doc = scrubDoc('🏠 = $1500', [
+				{ type: 'IDENTIFIER', value: '🏠', start: 0, end: 1 },
+				{ type: 'ASSIGN', value: '=', start: 2, end: 3 },
+				{ type: 'CURRENCY', value: '$1500', start: 4, end: 9 }
+			]);
+			const lineStart = doc.getAbsolutePosition(1, 0);
+
+			expect(doc.getNumberLiteralAt(lineStart + 7)).toEqual({
+				line: 1,
+				start: 5,
+				end: 10,
+				text: '$1500'
+			});
+			expect(doc.getNumberLiteralAt(lineStart + 10)?.text).toBe('$1500');
+			expect(doc.getNumberLiteralAt(lineStart)).toBeNull();
+		});
+
+		it('finds nothing on lines without tokens', () => {
+			const doc = new CalcMarkDocument('x = 5');
+			expect(doc.getNumberLiteralAt(4)).toBeNull();
+		});
+
+		it('records a whole scrub gesture as one undo step', () => {
+			const doc = scrubDoc('x = 99', [
+				{ type: 'IDENTIFIER', value: 'x', start: 0, end: 1 },
+				{ type: 'ASSIGN', value: '=', start: 2, end: 3 },
+				{ type: 'NUMBER', value: '99', start: 4, end: 6 }
+			]);
+			const literal = doc.getNumberLiteralAt(doc.getAbsolutePosition(1, 5))!;
+
+			const first = doc.replaceNumberLiteral(literal, '100');
+			expect(first.literal).toEqual({ line: 1, start: 4, end: 7, text: '100' });
+			expect(first.cursor).toBe(doc.getAbsolutePosition(1, 7));
+
+			const second = doc.replaceNumberLiteral(first.literal, '101');
+			expect(doc.getRawText()).toBe('# Budget\nx = 101');
+			expect(second.cursor).toBe(doc.getAbsolutePosition(1, 7));
+
+			expect(doc.undo()?.text).toBe('# Budget\nx = 99');
+			expect(doc.canUndo()).toBe(false);
+		});
+
+		it('starts a new undo step after breakUndoGroup', () => {
+			const doc = scrubDoc('x = 5', [{ type: 'NUMBER', value: '5', start: 4, end: 5 }]);
+			const { literal } = doc.replaceNumberLiteral(doc.getNumberLiteralAt(14)!, '6');
+			doc.breakUndoGroup();
+			doc.replaceNumberLiteral(literal, '7');
+
+			expect(doc.undo()?.text).toBe('# Budget\nx = 6');
+		});
+	});
+
 	describe('Viewport Management', () => {
 		it('updates viewport range', () => {
 			// Create document with 100 lines
@@ -238,39 +620,22 @@ describe('CalcMarkDocument - Core State Management', () => {
 
 			doc.updateViewport(10, 30);
 
-			const range = doc.getEvaluationRange();
+			const range = doc.getVisibleRange();
 			// With default buffer of 10: start = 0 (10-10), end = 40 (30+10)
 			expect(range.start).toBe(0);
 			expect(range.end).toBe(40);
 		});
 
-		it('clamps evaluation range to document bounds', () => {
+		it('clamps visible range to document bounds', () => {
 			const lines = Array.from({ length: 20 }, (_, i) => `line ${i}`);
 			const doc = new CalcMarkDocument(lines.join('\n'));
 
 			doc.updateViewport(15, 25); // Beyond document end
 
-			const range = doc.getEvaluationRange();
+			const range = doc.getVisibleRange();
 			expect(range.start).toBe(5); // 15 - 10 = 5
 			expect(range.end).toBe(19); // Clamped to 19 (20 lines, 0-indexed)
 		});
-
-		it('extracts text for evaluation with correct offset', () => {
-			const lines = Array.from({ length: 100 }, (_, i) => `line ${i}`);
-			const doc = new CalcMarkDocument(lines.join('\n'));
-
-			doc.updateViewport(20, 30);
-
-			const { text, offset } = doc.getTextForEvaluation();
-
-			// With buffer of 10: start = 10, end = 40
-			expect(offset).toBe(10);
-
-			const extractedLines = text.split('\n');
-			expect(extractedLines).toHaveLength(31); // Lines 10-40 inclusive
-			expect(extractedLines[0]).toBe('line 10');
-			expect(extractedLines[30]).toBe('line 40');
-		});
 	});
 
 	describe('Cursor Management', () => {
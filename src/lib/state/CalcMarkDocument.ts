@@ -11,6 +11,21 @@
  */
 
 import { runeToUtf16Position } from '$lib/utils/unicode';
+import {
+	applyTextChange,
+	computeTextChange,
+	invertTextChange,
+	type TextChange
+} from '$lib/utils/textChange';
+import {
+	mapPositionThroughReplacements,
+	replaceRanges,
+	validateRename,
+	type TextRange
+} from '$lib/utils/refactoring';
+import { SCRUBBABLE_TOKEN_TYPES } from '$lib/utils/numberScrubbing';
+import { UNDO_GROUP_DELAY_MS, UNDO_HISTORY_LIMIT } from '$lib/constants';
+import type { DependencyGraph } from '$lib/client/dependencyGraph';
 
 export interface Token {
 	type: string;
@@ -50,6 +65,64 @@ export interface Line {
 	version?: number; // Incremented when line data changes (for Svelte reactivity)
 }
 
+/**
+ * Kind of edit, used to decide whether consecutive edits form one undo step
+ * - typing/delete: grouped with the previous edit of the same kind
+ * - scrub: grouped with the previous scrub of the same literal, however long it takes
+ * - paste/other: always a separate undo step
+ */
+export type EditKind = 'typing' | 'delete' | 'paste' | 'scrub' | 'other';
+
+/**
+ * One undo step. Cursor positions are absolute UTF-16 offsets.
+ */
+export interface HistoryTransaction {
+	changes: TextChange[]; // Applied in order; undone in reverse order
+	cursorBefore: number;
+	cursorAfter: number;
+	kind: EditKind;
+	timestamp: number;
+}
+
+export interface EditOptions {
+	cursorBefore: number;
+	cursorAfter: number;
+	kind?: EditKind;
+	timestamp?: number; // Defaults to Date.now() - injectable for tests
+}
+
+export interface HistoryOptions {
+	limit?: number;
+	groupDelayMs?: number;
+}
+
+/**
+ * One occurrence of a variable name in a calculation line.
+ * Positions are UTF-16 offsets within the line (converted from WASM runes).
+ */
+export interface IdentifierOccurrence {
+	name: string;
+	line: number; // 0-indexed document line
+	start: number;
+	end: number;
+	isDefinition: boolean; // The assignment target (`name = ...`)
+}
+
+/**
+ * A NUMBER or CURRENCY literal in a calculation line.
+ * Positions are UTF-16 offsets within the line (converted from WASM runes).
+ */
+export interface NumberLiteral {
+	line: number; // 0-indexed document line
+	start: number;
+	end: number;
+	text: string;
+}
+
+export type RenameResult =
+	| { ok: true; text: string; cursor: number; renamed: number }
+	| { ok: false; error: string };
+
 export interface DocumentState {
 	// Source of truth: raw CalcMark text
 	rawText: string;
@@ -63,7 +136,7 @@ export interface DocumentState {
 		offset: number; // Character offset within line
 	} | null;
 
-	// Viewport for partial evaluation
+	// Viewport: limits token transfer and rendering work, never evaluation
 	viewport: {
 		firstVisibleLine: number;
 		lastVisibleLine: number;
@@ -74,13 +147,29 @@ export interface DocumentState {
 	evaluationResults: {
 		variableContext: Record<string, EvaluationResult>;
 		evaluatedRange: { start: number; end: number } | null;
+		dependencyGraph: DependencyGraph;
+	};
+
+	// Undo/redo stacks (most recent transaction last)
+	history: {
+		undoStack: HistoryTransaction[];
+		redoStack: HistoryTransaction[];
+		// When true, the next edit always starts a new transaction
+		groupBroken: boolean;
 	};
 }
 
 export class CalcMarkDocument {
 	private state: DocumentState;
+	private historyLimit: number;
+	private groupDelayMs: number;
+	// Built lazily from the dependency graph; reset whenever text or graph changes
+	private identifierIndex: Map<string, IdentifierOccurrence[]> | null = null;
+
+	constructor(initialText: string = '', historyOptions: HistoryOptions = {}) {
+		this.historyLimit = historyOptions.limit ?? UNDO_HISTORY_LIMIT;
+		this.groupDelayMs = historyOptions.groupDelayMs ?? UNDO_GROUP_DELAY_MS;
 
-	constructor(initialText: string = '') {
 		this.state = {
 			rawText: initialText,
 			lines: this.parseLines(initialText),
@@ -92,7 +181,13 @@ export class CalcMarkDocument {
 			},
 			evaluationResults: {
 				variableContext: {},
-				evaluatedRange: null
+				evaluatedRange: null,
+				dependencyGraph: {}
+			},
+			history: {
+				undoStack: [],
+				redoStack: [],
+				groupBroken: false
 			}
 		};
 	}
@@ -117,6 +212,7 @@ export class CalcMarkDocument {
 
 	updateRawText(newText: string): void {
 		this.state.rawText = newText;
+		this.identifierIndex = null;
 
 		// Parse new lines
 		const newLines = this.parseLines(newText);
@@ -142,6 +238,111 @@ export class CalcMarkDocument {
 		return this.state.lines;
 	}
 
+	// === Undo/Redo History ===
+
+	/**
+	 * Replace the document text and record the change as an undoable edit.
+	 *
+	 * Consecutive 'typing' (or 'delete') edits are merged into one transaction when
+	 * they continue where the previous edit left the cursor, within the group delay.
+	 * Any new edit clears the redo stack.
+	 *
+	 * @returns false if the text did not change (nothing recorded)
+	 */
+	applyEdit(newText: string, options: EditOptions): boolean {
+		const change = computeTextChange(this.state.rawText, newText);
+		if (!change) return false;
+
+		const { cursorBefore, cursorAfter, kind = 'other', timestamp = Date.now() } = options;
+		const { undoStack } = this.state.history;
+		const last = undoStack[undoStack.length - 1];
+
+		// A scrub gesture is one undo step no matter how long the drag lasts
+		const canGroup =
+			last !== undefined &&
+			!this.state.history.groupBroken &&
+			(kind === 'typing' || kind === 'delete' || kind === 'scrub') &&
+			last.kind === kind &&
+			last.cursorAfter === cursorBefore &&
+			(kind === 'scrub' || timestamp - last.timestamp <= this.groupDelayMs);
+
+		if (canGroup) {
+			last.changes.push(change);
+			last.cursorAfter = cursorAfter;
+			last.timestamp = timestamp;
+		} else {
+			undoStack.push({ changes: [change], cursorBefore, cursorAfter, kind, timestamp });
+			if (undoStack.length > this.historyLimit) {
+				undoStack.splice(0, undoStack.length - this.historyLimit);
+			}
+		}
+
+		this.state.history.redoStack = [];
+		this.state.history.groupBroken = false;
+		this.updateRawText(newText);
+		return true;
+	}
+
+	/**
+	 * Undo the most recent transaction.
+	 * @returns The restored text and cursor position, or null if there is nothing to undo
+	 */
+	undo(): { text: string; cursor: number } | null {
+		const transaction = this.state.history.undoStack.pop();
+		if (!transaction) return null;
+
+		let text = this.state.rawText;
+		for (let i = transaction.changes.length - 1; i >= 0; i--) {
+			text = applyTextChange(text, invertTextChange(transaction.changes[i]));
+		}
+
+		this.state.history.redoStack.push(transaction);
+		this.state.history.groupBroken = true;
+		this.updateRawText(text);
+		return { text, cursor: transaction.cursorBefore };
+	}
+
+	/**
+	 * Redo the most recently undone transaction.
+	 * @returns The restored text and cursor position, or null if there is nothing to redo
+	 */
+	redo(): { text: string; cursor: number } | null {
+		const transaction = this.state.history.redoStack.pop();
+		if (!transaction) return null;
+
+		let text = this.state.rawText;
+		for (const change of transaction.changes) {
+			text = applyTextChange(text, change);
+		}
+
+		this.state.history.undoStack.push(transaction);
+		this.state.history.groupBroken = true;
+		this.updateRawText(text);
+		return { text, cursor: transaction.cursorAfter };
+	}
+
+	canUndo(): boolean {
+		return this.state.history.undoStack.length > 0;
+	}
+
+	canRedo(): boolean {
+		return this.state.history.redoStack.length > 0;
+	}
+
+	/**
+	 * Force the next edit to start a new undo transaction
+	 * (e.g. after the cursor is moved by navigation keys or a click)
+	 */
+	breakUndoGroup(): void {
+		this.state.history.groupBroken = true;
+	}
+
+	clearHistory(): void {
+		this.state.history.undoStack = [];
+		this.state.history.redoStack = [];
+		this.state.history.groupBroken = false;
+	}
+
 	getLine(lineNumber: number): Line | undefined {
 		return this.state.lines[lineNumber];
 	}
@@ -175,7 +376,18 @@ export class CalcMarkDocument {
 
 	// === Diagnostics (from client WASM) ===
 
+	/**
+	 * Replace all diagnostics (0-indexed document lines)
+	 * Lines missing from `diagnosticsByLine` no longer have problems and are cleared.
+	 */
 	updateDiagnostics(diagnosticsByLine: Record<number, Diagnostic[]>): void {
+		this.state.lines.forEach((line, lineNumber) => {
+			if (line.diagnostics !== undefined && !(lineNumber in diagnosticsByLine)) {
+				line.diagnostics = undefined;
+				line.version = (line.version || 0) + 1;
+			}
+		});
+
 		for (const [lineStr, diagnostics] of Object.entries(diagnosticsByLine)) {
 			const lineNumber = Number(lineStr);
 			if (this.state.lines[lineNumber]) {
@@ -259,6 +471,236 @@ export class CalcMarkDocument {
 		return this.state.evaluationResults.variableContext;
 	}
 
+	/**
+	 * Store the worker's dependency graph (keyed by 0-indexed document line)
+	 */
+	updateDependencyGraph(graph: DependencyGraph): void {
+		this.state.evaluationResults.dependencyGraph = graph;
+		this.identifierIndex = null;
+	}
+
+	getDependencyGraph(): DependencyGraph {
+		return this.state.evaluationResults.dependencyGraph;
+	}
+
+	// === Identifier Index (go-to-definition / find references) ===
+
+	/**
+	 * Map each variable name to its occurrences, in document order.
+	 *
+	 * Built from the dependency graph's IDENTIFIER tokens rather than Line.tokens,
+	 * because Line.tokens is only filled in for lines near the viewport.
+	 * Occurrences whose line text changed since the last evaluation are skipped.
+	 */
+	getIdentifierIndex(): Map<string, IdentifierOccurrence[]> {
+		if (this.identifierIndex) return this.identifierIndex;
+
+		const index = new Map<string, IdentifierOccurrence[]>();
+		const graph = this.state.evaluationResults.dependencyGraph;
+		const lineNumbers = Object.keys(graph)
+			.map(Number)
+			.sort((a, b) => a - b);
+
+		for (const lineNumber of lineNumbers) {
+			const line = this.state.lines[lineNumber];
+			if (!line) continue;
+
+			const entry = graph[lineNumber];
+			let seenDefinition = false;
+			for (const token of entry.identifiers) {
+				const start = runeToUtf16Position(line.rawContent, token.start);
+				const end = runeToUtf16Position(line.rawContent, token.end);
+				// Stale graph (line edited after evaluation) - positions no longer match
+				if (line.rawContent.slice(start, end) !== token.value) continue;
+
+				// The first occurrence of the assigned name is the assignment target
+				const isDefinition = !seenDefinition && token.value === entry.variable;
+				if (isDefinition) seenDefinition = true;
+
+				const occurrences = index.get(token.value) ?? [];
+				occurrences.push({ name: token.value, line: lineNumber, start, end, isDefinition });
+				index.set(token.value, occurrences);
+			}
+		}
+
+		this.identifierIndex = index;
+		return index;
+	}
+
+	/**
+	 * Find the identifier at an absolute UTF-16 position (caret touching either edge counts)
+	 */
+	getIdentifierAt(position: number): IdentifierOccurrence | null {
+		const { line, offset } = this.getLineFromPosition(position);
+
+		for (const occurrences of this.getIdentifierIndex().values()) {
+			const match = occurrences.find(
+				(o) => o.line === line && o.start <= offset && offset <= o.end
+			);
+			if (match) return match;
+		}
+		return null;
+	}
+
+	/**
+	 * Find the assignment the identifier at `position` refers to.
+	 * Follows evaluation order: the closest assignment above the reference wins.
+	 */
+	findDefinition(position: number): IdentifierOccurrence | null {
+		const occurrence = this.getIdentifierAt(position);
+		if (!occurrence) return null;
+		if (occurrence.isDefinition) return occurrence;
+
+		const graph = this.state.evaluationResults.dependencyGraph;
+		const definitionLine = graph[occurrence.line]?.dependsOn.find(
+			(line) => graph[line]?.variable === occurrence.name
+		);
+		if (definitionLine === undefined) return null;
+
+		return (
+			this.getIdentifierIndex()
+				.get(occurrence.name)
+				?.find((o) => o.line === definitionLine && o.isDefinition) ?? null
+		);
+	}
+
+	/**
+	 * Find the definition of the identifier at `position` and every reference to it
+	 * (definition first, then references in document order).
+	 * A later re-assignment starts a new variable, so its readers are not included.
+	 */
+	findReferences(position: number): IdentifierOccurrence[] {
+		const definition = this.findDefinition(position);
+		if (!definition) return [];
+
+		const readers = this.state.evaluationResults.dependencyGraph[definition.line]?.usedBy ?? [];
+		const references = (this.getIdentifierIndex().get(definition.name) ?? []).filter(
+			(o) => !o.isDefinition && readers.includes(o.line)
+		);
+
+		return [definition, ...references];
+	}
+
+	// === Refactoring ===
+
+	/**
+	 * Rename the variable at `position` everywhere in the document.
+	 *
+	 * Uses the tokenizer's IDENTIFIER positions (via the identifier index), so
+	 * markdown lines and partial word matches are never touched. Every assignment
+	 * and reference of the name is rewritten, including re-assignments further down.
+	 * The whole rename is recorded as ONE undoable edit.
+	 *
+	 * @param newNameTokens - The engine's tokens for `newName` on its own; the
+	 *   rename is refused unless they are a single IDENTIFIER
+	 * @param cursor - Current cursor (absolute UTF-16), mapped through the rename
+	 */
+	renameVariable(
+		position: number,
+		newName: string,
+		newNameTokens: Token[],
+		cursor: number = position
+	): RenameResult {
+		const occurrence = this.getIdentifierAt(position);
+		if (!occurrence) {
+			return { ok: false, error: 'No variable at the cursor' };
+		}
+
+		const index = this.getIdentifierIndex();
+		const error = validateRename(occurrence.name, newName, newNameTokens, index.keys());
+		if (error) {
+			return { ok: false, error };
+		}
+
+		const ranges: TextRange[] = (index.get(occurrence.name) ?? []).map((o) => {
+			const lineStart = this.getAbsolutePosition(o.line, 0);
+			return { start: lineStart + o.start, end: lineStart + o.end };
+		});
+
+		const text = replaceRanges(this.state.rawText, ranges, newName);
+		const newCursor = mapPositionThroughReplacements(cursor, ranges, newName.length);
+
+		// 'other' edits are never grouped, so the rename is exactly one undo step
+		this.applyEdit(text, { cursorBefore: cursor, cursorAfter: newCursor, kind: 'other' });
+
+		return { ok: true, text, cursor: newCursor, renamed: ranges.length };
+	}
+
+	// === Number Scrubbing ===
+
+	/**
+	 * Find the NUMBER or CURRENCY literal at an absolute UTF-16 position
+	 * (caret touching either edge counts)
+	 *
+	 * Uses the line's tokens, so it only finds literals on lines that were
+	 * tokenized since their last edit.
+	 */
+	getNumberLiteralAt(position: number): NumberLiteral | null {
+		const { line, offset } = this.getLineFromPosition(position);
+		const token = this.getTokenUtf16Positions(line)?.find(
+			(t) => SCRUBBABLE_TOKEN_TYPES.includes(t.type) && t.start <= offset && offset <= t.end
+		);
+		if (!token) return null;
+
+		const text = this.state.lines[line].rawContent.slice(token.start, token.end);
+		return { line, start: token.start, end: token.end, text };
+	}
+
+	/**
+	 * Replace a literal found by getNumberLiteralAt() with new text.
+	 *
+	 * Recorded as a 'scrub' edit: consecutive replacements of the same literal
+	 * (each starting where the previous one left the cursor) are ONE undo step
+	 * until breakUndoGroup() is called. The cursor ends up after the literal.
+	 *
+	 * @returns The literal's new range and the new cursor, to pass to the next replacement
+	 */
+	replaceNumberLiteral(
+		literal: NumberLiteral,
+		text: string
+	): { literal: NumberLiteral; cursor: number } {
+		const lineStart = this.getAbsolutePosition(literal.line, 0);
+		const cursorBefore = lineStart + literal.end;
+		const updated = { ...literal, end: literal.start + text.length, text };
+		const cursor = lineStart + updated.end;
+
+		const rawText = this.state.rawText;
+		this.applyEdit(
+			rawText.slice(0, lineStart + literal.start) + text + rawText.slice(cursorBefore),
+			{ cursorBefore, cursorAfter: cursor, kind: 'scrub' }
+		);
+		return { literal: updated, cursor };
+	}
+
+	// === Inserting Lines ===
+
+	/**
+	 * Insert whole lines at the cursor as ONE undoable edit
+	 *
+	 * A blank cursor line is replaced by the block; otherwise the block goes on
+	 * new lines below the cursor line, so existing text is never split.
+	 *
+	 * @param position - Cursor (absolute UTF-16)
+	 * @param block - Lines to insert, without a trailing newline
+	 * @returns The new text and the cursor at the end of the block
+	 */
+	insertLines(position: number, block: string): { text: string; cursor: number } {
+		const { line } = this.getLineFromPosition(position);
+		const lineText = this.state.lines[line]?.rawContent ?? '';
+		const lineStart = this.getAbsolutePosition(line, 0);
+		const lineEnd = lineStart + lineText.length;
+
+		const isBlank = lineText.trim() === '';
+		const start = isBlank ? lineStart : lineEnd;
+		const insertion = isBlank ? block : `\n${block}`;
+
+		const text = this.state.rawText.slice(0, start) + insertion + this.state.rawText.slice(lineEnd);
+		const cursor = start + insertion.length;
+
+		this.applyEdit(text, { cursorBefore: position, cursorAfter: cursor, kind: 'paste' });
+		return { text, cursor };
+	}
+
 	// === Viewport Management ===
 
 	updateViewport(firstVisible: number, lastVisible: number): void {
@@ -266,7 +708,14 @@ export class CalcMarkDocument {
 		this.state.viewport.lastVisibleLine = lastVisible;
 	}
 
-	getEvaluationRange(): { start: number; end: number } {
+	/**
+	 * Visible lines plus `bufferLines` on either side (0-indexed, inclusive)
+	 *
+	 * Only used to skip work that is safe to skip off-screen (sending tokens for
+	 * syntax highlighting). Evaluation always covers the whole document so that
+	 * variables resolve against every definition, not just the visible ones.
+	 */
+	getVisibleRange(): { start: number; end: number } {
 		const { firstVisibleLine, lastVisibleLine, bufferLines } = this.state.viewport;
 		const totalLines = this.state.lines.length;
 
@@ -280,18 +729,6 @@ export class CalcMarkDocument {
 		};
 	}
 
-	getTextForEvaluation(): { text: string; offset: number } {
-		const range = this.getEvaluationRange();
-		const viewportLines = this.state.lines
-			.slice(range.start, range.end + 1)
-			.map((l) => l.rawContent);
-
-		return {
-			text: viewportLines.join('\n'),
-			offset: range.start // First line number in document (0-indexed) that corresponds to line 1 in viewport
-		};
-	}
-
 	// === Cursor Management ===
 
 	setCursor(line: number, offset: number): void {
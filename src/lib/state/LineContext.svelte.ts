@@ -11,12 +11,28 @@
  */
 
 import type { CalcMarkDocument, Line } from './CalcMarkDocument';
+import { getDownstreamLines, getUpstreamLines } from '$lib/client/dependencyGraph';
 
 export interface LineContextData {
 	lineNumber: number | null;
 	line: Line | null;
 }
 
+/**
+ * A directly related line, for the "depends on" / "used by" panel
+ */
+export interface RelatedLine {
+	lineNumber: number;
+	variable: string | null;
+}
+
+export interface LineDependencyContext {
+	dependsOn: RelatedLine[]; // Direct dependencies
+	usedBy: RelatedLine[]; // Direct dependents
+	upstream: number[]; // All lines this line transitively depends on
+	downstream: number[]; // All lines that transitively depend on this line
+}
+
 export class LineContext {
 	// Current hover state
 	private hoveredLineNumber = $state<number | null>(null);
@@ -95,6 +111,31 @@ export class LineContext {
 		};
 	}
 
+	/**
+	 * Get the dependency context for a line from the document's dependency graph
+	 * Returns empty lists for lines without calculations.
+	 */
+	getDependencyContext(lineNumber: number): LineDependencyContext {
+		const graph = this.document.getDependencyGraph();
+		const entry = graph[lineNumber];
+
+		if (!entry) {
+			return { dependsOn: [], usedBy: [], upstream: [], downstream: [] };
+		}
+
+		const toRelated = (related: number) => ({
+			lineNumber: related,
+			variable: graph[related]?.variable ?? null
+		});
+
+		return {
+			dependsOn: entry.dependsOn.map(toRelated),
+			usedBy: entry.usedBy.map(toRelated),
+			upstream: getUpstreamLines(graph, lineNumber),
+			downstream: getDownstreamLines(graph, lineNumber)
+		};
+	}
+
 	/**
 	 * Check if a specific line is currently hovered
 	 */
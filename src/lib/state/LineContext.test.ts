@@ -154,6 +154,50 @@ total = price * quantity`;
 		});
 	});
 
+	describe('getDependencyContext', () => {
+		beforeEach(() => {
+			// Lines 1 and 2 feed line 3 (price * quantity)
+			document.updateDependencyGraph({
+				1: { variable: 'price', reads: [], identifiers: [], dependsOn: [], usedBy: [3] },
+				2: { variable: 'quantity', reads: [], identifiers: [], dependsOn: [], usedBy: [3] },
+				3: {
+					variable: 'total',
+					reads: ['price', 'quantity'],
+					identifiers: [],
+					dependsOn: [1, 2],
+					usedBy: []
+				}
+			});
+		});
+
+		it('should list direct dependencies with their variable names', () => {
+			const context = lineContext.getDependencyContext(3);
+
+			expect(context.dependsOn).toEqual([
+				{ lineNumber: 1, variable: 'price' },
+				{ lineNumber: 2, variable: 'quantity' }
+			]);
+			expect(context.usedBy).toEqual([]);
+			expect(context.upstream).toEqual([1, 2]);
+		});
+
+		it('should list dependents of a definition', () => {
+			const context = lineContext.getDependencyContext(1);
+
+			expect(context.usedBy).toEqual([{ lineNumber: 3, variable: 'total' }]);
+			expect(context.downstream).toEqual([3]);
+		});
+
+		it('should return empty lists for non-calculation lines', () => {
+			expect(lineContext.getDependencyContext(0)).toEqual({
+				dependsOn: [],
+				usedBy: [],
+				upstream: [],
+				downstream: []
+			});
+		});
+	});
+
 	describe('type safety and structure', () => {
 		it('should return proper Line interface with all fields', () => {
 			lineContext.setHoveredLine(1);
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { extractTitle, generateDocumentId, UNTITLED_DOCUMENT_TITLE } from './documentStore';
+
+describe('documentStore', () => {
+	describe('extractTitle', () => {
+		it('uses the first heading as the title', () => {
+			const text = '# Budget Calculator\n\n## Income\nsalary = $5000';
+			expect(extractTitle(text)).toBe('Budget Calculator');
+		});
+
+		it('accepts any heading level', () => {
+			expect(extractTitle('intro text\n### Quarterly Numbers\nx = 5')).toBe('Quarterly Numbers');
+		});
+
+		it('strips closing hashes and surrounding whitespace', () => {
+			expect(extractTitle('#   Trip Costs   ##')).toBe('Trip Costs');
+		});
+
+		it('ignores hashes without a following space', () => {
+			expect(extractTitle('#hashtag\n# Real Title')).toBe('Real Title');
+		});
+
+		it('supports unicode titles', () => {
+			expect(extractTitle('# 🏠 Haushalt')).toBe('🏠 Haushalt');
+		});
+
+		it('falls back to the untitled title', () => {
+			expect(extractTitle('')).toBe(UNTITLED_DOCUMENT_TITLE);
+			expect(extractTitle('x = 5\ny = x * 2')).toBe(UNTITLED_DOCUMENT_TITLE);
+			expect(extractTitle('#\n#   ')).toBe(UNTITLED_DOCUMENT_TITLE);
+		});
+	});
+
+	describe('generateDocumentId', () => {
+		it('generates unique URL-safe ids', () => {
+			const first = generateDocumentId();
+			const second = generateDocumentId();
+
+			expect(first).not.toBe(second);
+			expect(encodeURIComponent(first)).toBe(first);
+		});
+	});
+});
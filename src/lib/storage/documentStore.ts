@@ -0,0 +1,195 @@
+/**
+ * Local document persistence (IndexedDB)
+ * Stores CalcMark sources in the browser so sheets survive reloads
+ *
+ * Two object stores are used:
+ * - `documents`: full raw text, keyed by document id
+ * - `index`: lightweight summaries (title, timestamps) for the document list
+ *
+ * The index is kept separate so listing documents never loads every body.
+ */
+
+const DB_NAME = 'calcdown';
+const DB_VERSION = 1;
+const DOCUMENTS_STORE = 'documents';
+const INDEX_STORE = 'index';
+
+/**
+ * Title used when a document has no `#` heading
+ */
+export const UNTITLED_DOCUMENT_TITLE = 'Untitled';
+
+export interface StoredDocument {
+	id: string;
+	text: string;
+}
+
+export interface DocumentSummary {
+	id: string;
+	title: string;
+	createdAt: number; // Epoch milliseconds
+	updatedAt: number; // Epoch milliseconds
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Extract a document title from its first `#` heading
+ * Any heading level counts; the first one found wins.
+ */
+export function extractTitle(text: string): string {
+	for (const line of text.split('\n')) {
+		const match = /^\s{0,3}#{1,6}\s+(.+?)\s*#*\s*$/.exec(line);
+		if (match && match[1].trim() !== '') {
+			return match[1].trim();
+		}
+	}
+	return UNTITLED_DOCUMENT_TITLE;
+}
+
+/**
+ * Generate a new, URL-safe document id
+ */
+export function generateDocumentId(): string {
+	if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+		return crypto.randomUUID();
+	}
+	return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+	return new Promise((resolve, reject) => {
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+}
+
+/**
+ * Resolve when a transaction commits
+ */
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+	return new Promise((resolve, reject) => {
+		transaction.oncomplete = () => resolve();
+		transaction.onerror = () => reject(transaction.error);
+		transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+	});
+}
+
+/**
+ * Open (and upgrade if needed) the CalcDown database
+ * Safe to call multiple times - the connection is shared
+ */
+function openDatabase(): Promise<IDBDatabase> {
+	if (dbPromise) return dbPromise;
+
+	if (typeof indexedDB === 'undefined') {
+		return Promise.reject(new Error('IndexedDB is not available in this environment'));
+	}
+
+	dbPromise = new Promise((resolve, reject) => {
+		const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+		request.onupgradeneeded = () => {
+			const db = request.result;
+			if (!db.objectStoreNames.contains(DOCUMENTS_STORE)) {
+				db.createObjectStore(DOCUMENTS_STORE, { keyPath: 'id' });
+			}
+			if (!db.objectStoreNames.contains(INDEX_STORE)) {
+				const index = db.createObjectStore(INDEX_STORE, { keyPath: 'id' });
+				index.createIndex('updatedAt', 'updatedAt');
+			}
+		};
+
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => {
+			dbPromise = null;
+			reject(request.error);
+		};
+	});
+
+	return dbPromise;
+}
+
+/**
+ * Create a new document and return its summary
+ */
+export async function createDocument(text: string = ''): Promise<DocumentSummary> {
+	const db = await openDatabase();
+	const now = Date.now();
+	const summary: DocumentSummary = {
+		id: generateDocumentId(),
+		title: extractTitle(text),
+		createdAt: now,
+		updatedAt: now
+	};
+
+	const transaction = db.transaction([DOCUMENTS_STORE, INDEX_STORE], 'readwrite');
+	transaction.objectStore(DOCUMENTS_STORE).put({ id: summary.id, text } satisfies StoredDocument);
+	transaction.objectStore(INDEX_STORE).put(summary);
+	await transactionDone(transaction);
+
+	return summary;
+}
+
+/**
+ * Load a document's raw text, or null if it does not exist
+ */
+export async function loadDocument(id: string): Promise<StoredDocument | null> {
+	const db = await openDatabase();
+	const transaction = db.transaction(DOCUMENTS_STORE, 'readonly');
+	const stored = await promisifyRequest<StoredDocument | undefined>(
+		transaction.objectStore(DOCUMENTS_STORE).get(id)
+	);
+	return stored ?? null;
+}
+
+/**
+ * Save a document's raw text and refresh its index entry
+ * Creates the index entry if it is missing (e.g. after a partial write).
+ */
+export async function saveDocument(id: string, text: string): Promise<DocumentSummary> {
+	const db = await openDatabase();
+	const transaction = db.transaction([DOCUMENTS_STORE, INDEX_STORE], 'readwrite');
+	const indexStore = transaction.objectStore(INDEX_STORE);
+
+	const existing = await promisifyRequest<DocumentSummary | undefined>(indexStore.get(id));
+	const now = Date.now();
+	const summary: DocumentSummary = {
+		id,
+		title: extractTitle(text),
+		createdAt: existing?.createdAt ?? now,
+		updatedAt: now
+	};
+
+	transaction.objectStore(DOCUMENTS_STORE).put({ id, text } satisfies StoredDocument);
+	indexStore.put(summary);
+	await transactionDone(transaction);
+
+	return summary;
+}
+
+/**
+ * List all document summaries, most recently modified first
+ */
+export async function listDocuments(): Promise<DocumentSummary[]> {
+	const db = await openDatabase();
+	const transaction = db.transaction(INDEX_STORE, 'readonly');
+	const summaries = await promisifyRequest<DocumentSummary[]>(
+		transaction.objectStore(INDEX_STORE).getAll()
+	);
+	return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Delete a document and its index entry
+ */
+export async function deleteDocument(id: string): Promise<void> {
+	const db = await openDatabase();
+	const transaction = db.transaction([DOCUMENTS_STORE, INDEX_STORE], 'readwrite');
+	transaction.objectStore(DOCUMENTS_STORE).delete(id);
+	transaction.objectStore(INDEX_STORE).delete(id);
+	await transactionDone(transaction);
+}
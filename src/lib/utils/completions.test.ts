@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import {
+	getCompletionPrefix,
+	getCompletions,
+	getVariablesDefinedBefore,
+	isCompletionContext,
+	MAX_COMPLETIONS
+} from './completions';
+import type { EvaluationResult } from '$lib/state/CalcMarkDocument';
+
+describe('completions', () => {
+	describe('getCompletionPrefix', () => {
+		it('should return the word before the cursor', () => {
+			expect(getCompletionPrefix('total = monthly_sa', 18)).toEqual({
+				text: 'monthly_sa',
+				start: 8
+			});
+		});
+
+		it('should handle emoji in UTF-16 offsets', () => {
+			// 🍕 is two UTF-16 code units
+			expect(getCompletionPrefix('x = 🍕', 6)).toEqual({ text: '🍕', start: 4 });
+		});
+
+		it('should return null after operators, spaces and numbers', () => {
+			expect(getCompletionPrefix('total = ', 8)).toBeNull();
+			expect(getCompletionPrefix('total = a +', 11)).toBeNull();
+			expect(getCompletionPrefix('total = 12', 10)).toBeNull();
+		});
+
+		it('should only look before the cursor', () => {
+			expect(getCompletionPrefix('total = rent', 10)).toEqual({ text: 're', start: 8 });
+		});
+	});
+
+	describe('isCompletionContext', () => {
+		it('should use the classification when known', () => {
+			expect(isCompletionContext({ rawContent: 'x = 1', classification: 'CALCULATION' })).toBe(
+				true
+			);
+			expect(isCompletionContext({ rawContent: 'x = 1', classification: 'MARKDOWN' })).toBe(false);
+		});
+
+		it('should guess for lines that have not been classified yet', () => {
+			expect(isCompletionContext({ rawContent: 'total = re', classification: null })).toBe(true);
+			expect(isCompletionContext({ rawContent: '# Heading = x', classification: null })).toBe(
+				false
+			);
+			expect(isCompletionContext({ rawContent: 'Some prose', classification: null })).toBe(false);
+		});
+	});
+
+	describe('getVariablesDefinedBefore', () => {
+		const variableContext: Record<string, EvaluationResult> = {
+			total: { OriginalLine: 5, Value: { Value: 30 } },
+			rent: { OriginalLine: 2, Value: { Value: 10, Symbol: '$' } },
+			food: { OriginalLine: 3, Value: { Value: 20 } }
+		};
+
+		it('should only include variables assigned above the line, in document order', () => {
+			const variables = getVariablesDefinedBefore(variableContext, 4);
+
+			expect(variables.map((v) => v.label)).toEqual(['rent', 'food']);
+			expect(variables[0]).toMatchObject({ kind: 'variable', value: { Value: 10, Symbol: '$' } });
+		});
+	});
+
+	describe('getCompletions', () => {
+		const variables = [
+			{ label: 'rent', insertText: 'rent', kind: 'variable' as const },
+			{ label: 'revenue', insertText: 'revenue', kind: 'variable' as const }
+		];
+
+		it('should match variables case-insensitively, before other kinds', () => {
+			expect(getCompletions('RE', variables).map((c) => c.label)).toEqual(['rent', 'revenue']);
+		});
+
+		it('should suggest functions', () => {
+			expect(getCompletions('sq', variables).map((c) => c.insertText)).toEqual([
+				'sqrt(',
+				'square root of '
+			]);
+		});
+
+		it('should suggest currency codes and symbols by name', () => {
+			expect(getCompletions('eu', variables).map((c) => c.label)).toEqual(['€', 'EUR']);
+			expect(getCompletions('us', variables).map((c) => c.label)).toEqual(['$', 'USD']);
+		});
+
+		it('should drop an exact match', () => {
+			expect(getCompletions('rent', variables)).toEqual([]);
+		});
+
+		it('should limit the number of items', () => {
+			const many = Array.from({ length: 20 }, (_, i) => ({
+				label: `a${i}`,
+				insertText: `a${i}`,
+				kind: 'variable' as const
+			}));
+			expect(getCompletions('a', many)).toHaveLength(MAX_COMPLETIONS);
+		});
+	});
+});
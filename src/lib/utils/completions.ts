@@ -0,0 +1,151 @@
+/**
+ * Autocomplete utilities for CALCULATION lines
+ * Pure functions for testability
+ *
+ * Offsets are UTF-16 code units within a single line (textarea units), NOT runes.
+ */
+
+import type { EvaluationResult, Line } from '$lib/state/CalcMarkDocument';
+
+export type CompletionKind = 'variable' | 'function' | 'currency';
+
+export interface CompletionItem {
+	label: string; // Shown in the popup and matched against the typed prefix
+	insertText: string; // Replaces the prefix when accepted
+	kind: CompletionKind;
+	detail?: string; // Short description (function signature, currency name)
+	value?: EvaluationResult['Value']; // Current value of a variable
+}
+
+/**
+ * The word being completed: the text between `start` and the cursor
+ */
+export interface CompletionPrefix {
+	text: string;
+	start: number;
+}
+
+/**
+ * Functions the CalcMark tokenizer knows (FUNC_* tokens)
+ */
+export const FUNCTION_COMPLETIONS: CompletionItem[] = [
+	{ label: 'avg', insertText: 'avg(', kind: 'function', detail: 'avg(a, b, …)' },
+	{
+		label: 'average of',
+		insertText: 'average of ',
+		kind: 'function',
+		detail: 'average of a, b, …'
+	},
+	{ label: 'sqrt', insertText: 'sqrt(', kind: 'function', detail: 'sqrt(x)' },
+	{
+		label: 'square root of',
+		insertText: 'square root of ',
+		kind: 'function',
+		detail: 'square root of x'
+	}
+];
+
+/**
+ * Currency symbols and ISO 4217 codes
+ */
+export const CURRENCY_COMPLETIONS: CompletionItem[] = [
+	{ label: '$', insertText: '$', kind: 'currency', detail: 'US dollar' },
+	{ label: '€', insertText: '€', kind: 'currency', detail: 'Euro' },
+	{ label: '£', insertText: '£', kind: 'currency', detail: 'Pound sterling' },
+	{ label: '¥', insertText: '¥', kind: 'currency', detail: 'Yen' },
+	{ label: 'USD', insertText: 'USD', kind: 'currency', detail: 'US dollar' },
+	{ label: 'EUR', insertText: 'EUR', kind: 'currency', detail: 'Euro' },
+	{ label: 'GBP', insertText: 'GBP', kind: 'currency', detail: 'Pound sterling' },
+	{ label: 'JPY', insertText: 'JPY', kind: 'currency', detail: 'Japanese yen' },
+	{ label: 'CNY', insertText: 'CNY', kind: 'currency', detail: 'Chinese yuan' },
+	{ label: 'CHF', insertText: 'CHF', kind: 'currency', detail: 'Swiss franc' },
+	{ label: 'CAD', insertText: 'CAD', kind: 'currency', detail: 'Canadian dollar' },
+	{ label: 'AUD', insertText: 'AUD', kind: 'currency', detail: 'Australian dollar' },
+	{ label: 'INR', insertText: 'INR', kind: 'currency', detail: 'Indian rupee' }
+];
+
+// Maximum number of items shown in the popup
+export const MAX_COMPLETIONS = 8;
+
+// Letters, digits, underscores and emoji can all be part of a variable name
+const WORD_CHAR = /[\p{L}\p{N}_\p{Extended_Pictographic}\u{FE0F}\u{200D}]/u;
+
+/**
+ * Find the word immediately before the cursor
+ *
+ * @returns null when the cursor does not follow a completable word
+ */
+export function getCompletionPrefix(lineText: string, offset: number): CompletionPrefix | null {
+	const before = Array.from(lineText.slice(0, offset));
+
+	let runes = 0;
+	while (runes < before.length && WORD_CHAR.test(before[before.length - 1 - runes])) {
+		runes++;
+	}
+
+	if (runes === 0) return null;
+
+	const text = before.slice(before.length - runes).join('');
+	// Numbers are not completable (`12` should not suggest anything)
+	if (/^\p{Nd}/u.test(text)) return null;
+
+	return { text, start: offset - text.length };
+}
+
+/**
+ * Should completions be offered on this line?
+ *
+ * Lines being edited have no classification until the next evaluation, so
+ * fall back to a cheap heuristic: an assignment or operator outside markdown syntax.
+ */
+export function isCompletionContext(line: Pick<Line, 'rawContent' | 'classification'>): boolean {
+	if (line.classification !== null) {
+		return line.classification === 'CALCULATION';
+	}
+
+	const text = line.rawContent.trimStart();
+	if (/^(#|>|[-*+]\s|\d+\.\s)/.test(text)) return false;
+	return /[=+\-*/^%]/.test(text);
+}
+
+/**
+ * Variables assigned above `lineNumber` (0-indexed), in document order
+ * Only variables "defined so far" can be used on the current line.
+ */
+export function getVariablesDefinedBefore(
+	variableContext: Record<string, EvaluationResult>,
+	lineNumber: number
+): CompletionItem[] {
+	return Object.entries(variableContext)
+		.filter(([, result]) => result.OriginalLine - 1 < lineNumber) // OriginalLine is 1-indexed
+		.sort(([, a], [, b]) => a.OriginalLine - b.OriginalLine)
+		.map(([name, result]) => ({
+			label: name,
+			insertText: name,
+			kind: 'variable' as const,
+			value: result.Value
+		}));
+}
+
+/**
+ * Filter completion candidates by the typed prefix (case-insensitive)
+ * Variables come first, then functions, then currencies. Currencies also match
+ * their name, so `euro` offers € and EUR. An item identical to the prefix is
+ * dropped - there is nothing left to complete.
+ */
+export function getCompletions(
+	prefix: string,
+	variables: CompletionItem[],
+	limit: number = MAX_COMPLETIONS
+): CompletionItem[] {
+	const needle = prefix.toLowerCase();
+	const candidates = [...variables, ...FUNCTION_COMPLETIONS, ...CURRENCY_COMPLETIONS];
+
+	return candidates
+		.filter((item) => {
+			if (item.insertText === prefix) return false;
+			if (item.label.toLowerCase().startsWith(needle)) return true;
+			return item.kind === 'currency' && !!item.detail?.toLowerCase().startsWith(needle);
+		})
+		.slice(0, limit);
+}
@@ -41,6 +41,17 @@ export function findTextNodeAtOffset(
 	return traverse(element);
 }
 
+/**
+ * Character offset at which `node` starts within `element`
+ * (the inverse of findTextNodeAtOffset)
+ */
+export function getTextOffset(element: Element, node: Node): number {
+	const range = document.createRange();
+	range.setStart(element, 0);
+	range.setEndBefore(node);
+	return range.toString().length;
+}
+
 /**
  * Get the actual font size in pixels from computed styles
  */
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { collectProblems, getDiagnosticSpan } from './diagnostics';
+import type { Diagnostic, Line } from '$lib/state/CalcMarkDocument';
+
+function diagnostic(startColumn: number, endColumn: number, endLine = 0): Diagnostic {
+	return {
+		severity: 'error',
+		message: 'Undefined variable',
+		range: {
+			start: { line: 0, column: startColumn },
+			end: { line: endLine, column: endColumn }
+		}
+	};
+}
+
+function line(lineNumber: number, rawContent: string, diagnostics?: Diagnostic[]): Line {
+	return { lineNumber, rawContent, classification: 'CALCULATION', diagnostics };
+}
+
+describe('diagnostics', () => {
+	describe('getDiagnosticSpan', () => {
+		it('should use the rune columns of the range', () => {
+			expect(getDiagnosticSpan(diagnostic(4, 17), 'x = undefined_var')).toEqual({
+				start: 4,
+				end: 17
+			});
+		});
+
+		it('should convert runes to UTF-16 after emoji', () => {
+			// 🏠 is one rune but two UTF-16 code units
+			expect(getDiagnosticSpan(diagnostic(4, 7), '🏠 = abc')).toEqual({ start: 5, end: 8 });
+		});
+
+		it('should underline the trimmed line without a range', () => {
+			const noRange: Diagnostic = { severity: 'warning', message: 'Unused' };
+			expect(getDiagnosticSpan(noRange, '  x = 1  ')).toEqual({ start: 2, end: 7 });
+		});
+
+		it('should stop multi-line ranges at the end of the line', () => {
+			expect(getDiagnosticSpan(diagnostic(4, 2, 1), 'x = (1 +')).toEqual({ start: 4, end: 8 });
+		});
+
+		it('should widen zero-width ranges to one character', () => {
+			expect(getDiagnosticSpan(diagnostic(4, 4), 'x = 🍕')).toEqual({ start: 4, end: 6 });
+		});
+
+		it('should clamp ranges past the end of the line', () => {
+			expect(getDiagnosticSpan(diagnostic(3, 20), 'x = 1')).toEqual({ start: 3, end: 5 });
+		});
+	});
+
+	describe('collectProblems', () => {
+		it('should list errors and warnings by line, errors first', () => {
+			const warning: Diagnostic = { severity: 'warning', message: 'Unused variable' };
+			const error = diagnostic(4, 5);
+			const info: Diagnostic = { severity: 'info', message: 'Hint' };
+
+			const problems = collectProblems([
+				line(0, 'a = 1', [info]),
+				line(1, 'b = c', [warning, error]),
+				line(2, 'd = 1')
+			]);
+
+			expect(problems.map((p) => [p.lineNumber, p.diagnostic.severity])).toEqual([
+				[1, 'error'],
+				[1, 'warning']
+			]);
+			expect(problems[0].span).toEqual({ start: 4, end: 5 });
+		});
+	});
+});
@@ -0,0 +1,87 @@
+/**
+ * Diagnostic presentation utilities
+ * Pure functions for testability
+ *
+ * Diagnostic ranges come from the Go engine in RUNES; everything returned here
+ * is in UTF-16 code units within a single line (textarea/DOM units).
+ */
+
+import type { Diagnostic, Line } from '$lib/state/CalcMarkDocument';
+import { runeToUtf16Position } from './unicode';
+
+export interface DiagnosticSpan {
+	start: number;
+	end: number;
+}
+
+/**
+ * A diagnostic listed in the Problems panel
+ */
+export interface Problem {
+	lineNumber: number; // 0-indexed document line
+	diagnostic: Diagnostic;
+	span: DiagnosticSpan;
+}
+
+const SEVERITY_ORDER: Record<Diagnostic['severity'], number> = {
+	error: 0,
+	warning: 1,
+	info: 2
+};
+
+/**
+ * Convert a diagnostic's rune range to a UTF-16 span within its line
+ *
+ * Diagnostics are already attached to the line they start on, so only the
+ * columns are used. Ranges spanning several lines stop at the end of this line.
+ * Without a range (or with an empty one) the whole trimmed line is underlined,
+ * so every diagnostic stays visible.
+ */
+export function getDiagnosticSpan(diagnostic: Diagnostic, lineText: string): DiagnosticSpan {
+	const lineEnd = lineText.length;
+	const contentStart = lineEnd - lineText.trimStart().length;
+	const contentEnd = lineText.trimEnd().length;
+	const wholeLine = { start: contentStart, end: Math.max(contentEnd, contentStart) };
+
+	if (!diagnostic.range) return wholeLine;
+
+	const { start, end } = diagnostic.range;
+	const spanStart = Math.min(runeToUtf16Position(lineText, start.column), lineEnd);
+	const spanEnd =
+		end.line > start.line ? lineEnd : Math.min(runeToUtf16Position(lineText, end.column), lineEnd);
+
+	if (spanEnd > spanStart) return { start: spanStart, end: spanEnd };
+
+	// Zero-width range: underline the character at the position instead
+	if (spanStart < lineEnd) {
+		const char = String.fromCodePoint(lineText.codePointAt(spanStart)!);
+		return { start: spanStart, end: spanStart + char.length };
+	}
+
+	return wholeLine;
+}
+
+/**
+ * Every error and warning in the document, by line then severity
+ * Info diagnostics are hints, not problems, and are left out.
+ */
+export function collectProblems(lines: Line[]): Problem[] {
+	const problems: Problem[] = [];
+
+	lines.forEach((line, lineNumber) => {
+		for (const diagnostic of line.diagnostics ?? []) {
+			if (diagnostic.severity === 'info') continue;
+			problems.push({
+				lineNumber,
+				diagnostic,
+				span: getDiagnosticSpan(diagnostic, line.rawContent)
+			});
+		}
+	});
+
+	return problems.sort(
+		(a, b) =>
+			a.lineNumber - b.lineNumber ||
+			SEVERITY_ORDER[a.diagnostic.severity] - SEVERITY_ORDER[b.diagnostic.severity]
+	);
+}
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { Marked } from 'marked';
+import { interpolationExtension, replaceReferences } from './interpolation';
+
+const markdown = new Marked({ extensions: [interpolationExtension] });
+
+function render(content: string): string {
+	const html = markdown.parseInline(content) as string;
+	return replaceReferences(html, (name, inAttribute) => (inAttribute ? `(${name})` : `[${name}]`));
+}
+
+describe('interpolation', () => {
+	it('should replace references, with or without inner spaces', () => {
+		expect(render('We have {{leftover}} left, {{ rent }} goes to rent')).toBe(
+			'We have [leftover] left, [rent] goes to rent'
+		);
+	});
+
+	it('should find references inside emphasis and link text', () => {
+		expect(render('**{{total}}** and [{{x}}](https://example.com)')).toBe(
+			'<strong>[total]</strong> and <a href="https://example.com">[x]</a>'
+		);
+	});
+
+	it('should leave code spans alone', () => {
+		expect(render('`{{total}}`')).toBe('<code>{{total}}</code>');
+	});
+
+	it('should render references inside tags as attribute text', () => {
+		expect(render('![{{total}}](chart.png)')).toBe('<img src="chart.png" alt="(total)">');
+	});
+
+	it('should not treat malformed references as references', () => {
+		expect(render('{{}} {{a b}} {{<b>}}')).toBe('{{}} {{a b}} {{<b>}}');
+	});
+
+	it('should return HTML without references unchanged', () => {
+		expect(replaceReferences('<em>x</em>', () => 'never')).toBe('<em>x</em>');
+	});
+});
@@ -0,0 +1,52 @@
+/**
+ * `{{name}}` references to calculated values inside markdown prose
+ *
+ * The marked extension only marks where a reference is. Values are filled in
+ * by replaceReferences() after sanitizeHtml() has run, which would otherwise
+ * strip the classes of the rendered value chips. Code spans and link URLs are
+ * tokenized before the extension sees them, so `{{x}}` inside those stays literal.
+ */
+
+import type { TokenizerAndRendererExtension } from 'marked';
+
+// Private-use characters delimit a reference in the rendered HTML
+const START = '\uE000';
+const END = '\uE001';
+
+// Anything but braces, whitespace and characters that mean something in HTML
+const REFERENCE = /^\{\{\s*([^{}\s<>&"'`]+)\s*\}\}/;
+const PLACEHOLDER = /\uE000([^\uE001]*)\uE001/g;
+const TAG_OR_PLACEHOLDER = /<[^>]*>|\uE000([^\uE001]*)\uE001/g;
+
+export const interpolationExtension: TokenizerAndRendererExtension = {
+	name: 'interpolation',
+	level: 'inline',
+	start(src) {
+		const index = src.indexOf('{{');
+		return index === -1 ? undefined : index;
+	},
+	tokenizer(src) {
+		const match = REFERENCE.exec(src);
+		if (match) return { type: 'interpolation', raw: match[0], name: match[1] };
+	},
+	renderer: (token) => `${START}${token.name}${END}`
+};
+
+/**
+ * Replace the references marked by interpolationExtension
+ *
+ * @param render - HTML for a reference; `inAttribute` is true for references that
+ *   ended up inside a tag (e.g. an image's alt text), which must be plain escaped text
+ */
+export function replaceReferences(
+	html: string,
+	render: (name: string, inAttribute: boolean) => string
+): string {
+	if (!html.includes(START)) return html;
+
+	return html.replace(TAG_OR_PLACEHOLDER, (match, name?: string) =>
+		name === undefined
+			? match.replace(PLACEHOLDER, (_, tagName: string) => render(tagName, true))
+			: render(name, false)
+	);
+}
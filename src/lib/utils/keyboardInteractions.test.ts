@@ -1,5 +1,9 @@
 import { describe, it, expect } from 'vitest';
-import { determineKeyboardAction, type KeyboardActionContext } from './keyboardInteractions';
+import {
+	determineKeyboardAction,
+	getEditKind,
+	type KeyboardActionContext
+} from './keyboardInteractions';
 
 describe('keyboardInteractions', () => {
 	describe('determineKeyboardAction', () => {
@@ -173,5 +177,214 @@ describe('keyboardInteractions', () => {
 			const action = determineKeyboardAction(context);
 			expect(action.type).toBe('ALLOW_DEFAULT');
 		});
+
+		it('should return UNDO for Ctrl+Z and Cmd+Z', () => {
+			const context: KeyboardActionContext = {
+				key: 'z',
+				shiftKey: false,
+				ctrlKey: true,
+				metaKey: false,
+				cursorPosition: 5,
+				selectionStart: 5,
+				selectionEnd: 5,
+				contentLength: 10,
+				isAtStart: false,
+				isAtEnd: false,
+				blockType: 'calculation'
+			};
+
+			expect(determineKeyboardAction(context).type).toBe('UNDO');
+			expect(determineKeyboardAction({ ...context, ctrlKey: false, metaKey: true }).type).toBe(
+				'UNDO'
+			);
+		});
+
+		it('should return REDO for Shift+Ctrl+Z and Ctrl+Y', () => {
+			const context: KeyboardActionContext = {
+				key: 'Z',
+				shiftKey: true,
+				ctrlKey: true,
+				metaKey: false,
+				cursorPosition: 5,
+				selectionStart: 5,
+				selectionEnd: 5,
+				contentLength: 10,
+				isAtStart: false,
+				isAtEnd: false,
+				blockType: 'markdown'
+			};
+
+			expect(determineKeyboardAction(context).type).toBe('REDO');
+			expect(determineKeyboardAction({ ...context, key: 'y', shiftKey: false }).type).toBe('REDO');
+		});
+
+		it('should return ALLOW_DEFAULT for Z without modifiers', () => {
+			const context: KeyboardActionContext = {
+				key: 'z',
+				shiftKey: false,
+				ctrlKey: false,
+				metaKey: false,
+				cursorPosition: 5,
+				selectionStart: 5,
+				selectionEnd: 5,
+				contentLength: 10,
+				isAtStart: false,
+				isAtEnd: false,
+				blockType: 'markdown'
+			};
+
+			expect(determineKeyboardAction(context).type).toBe('ALLOW_DEFAULT');
+		});
+
+		it('should return GO_TO_DEFINITION for F12 and FIND_REFERENCES for Shift+F12', () => {
+			const context: KeyboardActionContext = {
+				key: 'F12',
+				shiftKey: false,
+				ctrlKey: false,
+				metaKey: false,
+				cursorPosition: 5,
+				selectionStart: 5,
+				selectionEnd: 5,
+				contentLength: 10,
+				isAtStart: false,
+				isAtEnd: false,
+				blockType: 'calculation'
+			};
+
+			expect(determineKeyboardAction(context).type).toBe('GO_TO_DEFINITION');
+			expect(determineKeyboardAction({ ...context, shiftKey: true }).type).toBe('FIND_REFERENCES');
+		});
+
+		it('should return RENAME_VARIABLE for F2', () => {
+			const context: KeyboardActionContext = {
+				key: 'F2',
+				shiftKey: false,
+				ctrlKey: false,
+				metaKey: false,
+				cursorPosition: 5,
+				selectionStart: 5,
+				selectionEnd: 5,
+				contentLength: 10,
+				isAtStart: false,
+				isAtEnd: false,
+				blockType: 'calculation'
+			};
+
+			expect(determineKeyboardAction(context).type).toBe('RENAME_VARIABLE');
+		});
+
+		it('should drive the completion popup while it is open', () => {
+			const context: KeyboardActionContext = {
+				key: 'ArrowDown',
+				shiftKey: false,
+				ctrlKey: false,
+				metaKey: false,
+				cursorPosition: 5,
+				selectionStart: 5,
+				selectionEnd: 5,
+				contentLength: 10,
+				isAtStart: false,
+				isAtEnd: false,
+				blockType: 'calculation',
+				completionOpen: true
+			};
+
+			expect(determineKeyboardAction(context).type).toBe('COMPLETION_NEXT');
+			expect(determineKeyboardAction({ ...context, key: 'ArrowUp' }).type).toBe(
+				'COMPLETION_PREVIOUS'
+			);
+			expect(determineKeyboardAction({ ...context, key: 'Enter' }).type).toBe('COMPLETION_ACCEPT');
+			expect(determineKeyboardAction({ ...context, key: 'Tab' }).type).toBe('COMPLETION_ACCEPT');
+			expect(determineKeyboardAction({ ...context, key: 'Escape' }).type).toBe('COMPLETION_CLOSE');
+		});
+
+		it('should keep default Enter/Escape behavior when the popup is closed', () => {
+			const context: KeyboardActionContext = {
+				key: 'Escape',
+				shiftKey: false,
+				ctrlKey: false,
+				metaKey: false,
+				cursorPosition: 5,
+				selectionStart: 5,
+				selectionEnd: 5,
+				contentLength: 10,
+				isAtStart: false,
+				isAtEnd: false,
+				blockType: 'calculation',
+				completionOpen: false
+			};
+
+			expect(determineKeyboardAction(context).type).toBe('ESCAPE_TO_PREVIEW');
+			expect(determineKeyboardAction({ ...context, key: 'ArrowDown' }).type).toBe('ALLOW_DEFAULT');
+		});
+
+		it('should return COMPLETION_TRIGGER for Ctrl+Space on calculation lines only', () => {
+			const context: KeyboardActionContext = {
+				key: ' ',
+				shiftKey: false,
+				ctrlKey: true,
+				metaKey: false,
+				cursorPosition: 5,
+				selectionStart: 5,
+				selectionEnd: 5,
+				contentLength: 10,
+				isAtStart: false,
+				isAtEnd: false,
+				blockType: 'calculation'
+			};
+
+			expect(determineKeyboardAction(context).type).toBe('COMPLETION_TRIGGER');
+			expect(determineKeyboardAction({ ...context, blockType: 'markdown' }).type).toBe(
+				'ALLOW_DEFAULT'
+			);
+		});
+
+		it('should nudge numbers with Alt+Up/Down on calculation lines only', () => {
+			const context: KeyboardActionContext = {
+				key: 'ArrowUp',
+				shiftKey: false,
+				ctrlKey: false,
+				metaKey: false,
+				altKey: true,
+				cursorPosition: 5,
+				selectionStart: 5,
+				selectionEnd: 5,
+				contentLength: 10,
+				isAtStart: false,
+				isAtEnd: false,
+				blockType: 'calculation'
+			};
+
+			expect(determineKeyboardAction(context).type).toBe('INCREMENT_NUMBER');
+			expect(determineKeyboardAction({ ...context, key: 'ArrowDown' }).type).toBe(
+				'DECREMENT_NUMBER'
+			);
+			expect(determineKeyboardAction({ ...context, blockType: 'markdown' }).type).toBe(
+				'ALLOW_DEFAULT'
+			);
+			expect(determineKeyboardAction({ ...context, altKey: false }).type).toBe('ALLOW_DEFAULT');
+		});
+	});
+
+	describe('getEditKind', () => {
+		it('should group typed text as typing', () => {
+			expect(getEditKind('insertText')).toBe('typing');
+			expect(getEditKind('insertCompositionText')).toBe('typing');
+		});
+
+		it('should group all deletions as delete', () => {
+			expect(getEditKind('deleteContentBackward')).toBe('delete');
+			expect(getEditKind('deleteWordForward')).toBe('delete');
+		});
+
+		it('should treat paste and drop as paste', () => {
+			expect(getEditKind('insertFromPaste')).toBe('paste');
+			expect(getEditKind('insertFromDrop')).toBe('paste');
+		});
+
+		it('should fall back to other', () => {
+			expect(getEditKind('insertLineBreak')).toBe('other');
+			expect(getEditKind(null)).toBe('other');
+		});
 	});
 });
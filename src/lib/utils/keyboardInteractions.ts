@@ -3,11 +3,14 @@
  * Pure functions for testability
  */
 
+import type { EditKind } from '$lib/state/CalcMarkDocument';
+
 export interface KeyboardActionContext {
 	key: string;
 	shiftKey: boolean;
 	ctrlKey: boolean;
 	metaKey: boolean;
+	altKey?: boolean;
 	cursorPosition: number;
 	selectionStart: number;
 	selectionEnd: number;
@@ -15,6 +18,7 @@ export interface KeyboardActionContext {
 	isAtStart: boolean;
 	isAtEnd: boolean;
 	blockType: 'markdown' | 'calculation';
+	completionOpen?: boolean; // Autocomplete popup is showing
 }
 
 export type KeyboardAction =
@@ -25,6 +29,18 @@ export type KeyboardAction =
 	| { type: 'ENTER_NEW_MARKDOWN_BLOCK' } // New block after current
 	| { type: 'ENTER_NEW_CALCULATION_BLOCK' } // New calc block after current
 	| { type: 'BACKSPACE_MERGE_WITH_PREVIOUS' }
+	| { type: 'UNDO' }
+	| { type: 'REDO' }
+	| { type: 'GO_TO_DEFINITION' }
+	| { type: 'FIND_REFERENCES' }
+	| { type: 'RENAME_VARIABLE' }
+	| { type: 'INCREMENT_NUMBER' } // Nudge the number at the cursor (number scrubbing)
+	| { type: 'DECREMENT_NUMBER' }
+	| { type: 'COMPLETION_TRIGGER' } // Open autocomplete explicitly
+	| { type: 'COMPLETION_NEXT' }
+	| { type: 'COMPLETION_PREVIOUS' }
+	| { type: 'COMPLETION_ACCEPT' }
+	| { type: 'COMPLETION_CLOSE' }
 	| { type: 'ALLOW_DEFAULT' }; // Let browser handle it
 
 /**
@@ -33,6 +49,46 @@ export type KeyboardAction =
 export function determineKeyboardAction(context: KeyboardActionContext): KeyboardAction {
 	const { key, selectionStart, selectionEnd, blockType, isAtEnd, isAtStart } = context;
 
+	// UNDO/REDO: Ctrl/Cmd+Z, Shift+Ctrl/Cmd+Z (and Ctrl+Y on Windows/Linux)
+	if (context.ctrlKey || context.metaKey) {
+		const lowerKey = key.toLowerCase();
+		if (lowerKey === 'z') {
+			return { type: context.shiftKey ? 'REDO' : 'UNDO' };
+		}
+		if (lowerKey === 'y' && context.ctrlKey && !context.shiftKey) {
+			return { type: 'REDO' };
+		}
+	}
+
+	// Alt+Up/Down: Nudge the number at the cursor on a calculation line
+	if (context.altKey && blockType === 'calculation' && !context.ctrlKey && !context.metaKey) {
+		if (key === 'ArrowUp') return { type: 'INCREMENT_NUMBER' };
+		if (key === 'ArrowDown') return { type: 'DECREMENT_NUMBER' };
+	}
+
+	// AUTOCOMPLETE: While the popup is open, arrows/Enter/Tab/Escape drive it
+	if (context.completionOpen) {
+		if (key === 'ArrowDown') return { type: 'COMPLETION_NEXT' };
+		if (key === 'ArrowUp') return { type: 'COMPLETION_PREVIOUS' };
+		if (key === 'Enter' || key === 'Tab') return { type: 'COMPLETION_ACCEPT' };
+		if (key === 'Escape') return { type: 'COMPLETION_CLOSE' };
+	}
+
+	// Ctrl+Space: Open autocomplete on a calculation line
+	if (key === ' ' && context.ctrlKey && blockType === 'calculation') {
+		return { type: 'COMPLETION_TRIGGER' };
+	}
+
+	// F12: Go to definition, Shift+F12: find all references
+	if (key === 'F12') {
+		return { type: context.shiftKey ? 'FIND_REFERENCES' : 'GO_TO_DEFINITION' };
+	}
+
+	// F2: Rename the variable at the cursor
+	if (key === 'F2') {
+		return { type: 'RENAME_VARIABLE' };
+	}
+
 	// ESCAPE: Always return to preview mode
 	if (key === 'Escape') {
 		return { type: 'ESCAPE_TO_PREVIEW' };
@@ -79,7 +135,8 @@ export function determineKeyboardAction(context: KeyboardActionContext): Keyboar
  */
 export function createKeyboardContext(
 	event: KeyboardEvent,
-	blockType: 'markdown' | 'calculation'
+	blockType: 'markdown' | 'calculation',
+	completionOpen: boolean = false
 ): KeyboardActionContext {
 	const textarea = event.target as HTMLTextAreaElement;
 	const { selectionStart, selectionEnd, value } = textarea;
@@ -89,13 +146,15 @@ export function createKeyboardContext(
 		shiftKey: event.shiftKey,
 		ctrlKey: event.ctrlKey,
 		metaKey: event.metaKey,
+		altKey: event.altKey,
 		cursorPosition: selectionStart,
 		selectionStart,
 		selectionEnd,
 		contentLength: value.length,
 		isAtStart: selectionStart === 0,
 		isAtEnd: selectionStart === value.length,
-		blockType
+		blockType,
+		completionOpen
 	};
 }
 
@@ -106,3 +165,15 @@ export function shouldHandleKeyboardEvent(event: KeyboardEvent): boolean {
 	const handledKeys = ['Escape', 'Tab', 'Enter', 'Backspace'];
 	return handledKeys.includes(event.key);
 }
+
+/**
+ * Map an InputEvent.inputType to the undo grouping kind used by CalcMarkDocument
+ * See https://w3c.github.io/input-events/#interface-InputEvent-Attributes
+ */
+export function getEditKind(inputType: string | null | undefined): EditKind {
+	if (!inputType) return 'other';
+	if (inputType === 'insertText' || inputType === 'insertCompositionText') return 'typing';
+	if (inputType.startsWith('delete')) return 'delete';
+	if (inputType === 'insertFromPaste' || inputType === 'insertFromDrop') return 'paste';
+	return 'other';
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeMarkdownBlocks, findCodeBlockLines, splitTableCells } from './markdownBlocks';
+
+function types(text: string) {
+	return analyzeMarkdownBlocks(text.split('\n')).map((block) => block.type);
+}
+
+describe('analyzeMarkdownBlocks', () => {
+	it('should return one block per line', () => {
+		const text = '# Budget\n\nIntro\n- rent\n- food\n> Note\n---';
+
+		expect(types(text)).toEqual([
+			'heading',
+			'blank',
+			'paragraph',
+			'list-item',
+			'list-item',
+			'blockquote',
+			'rule'
+		]);
+	});
+
+	it('should report heading levels and where the content starts', () => {
+		const [h1, h3, notHeading] = analyzeMarkdownBlocks(['# Title', '###   Sub', '#hashtag']);
+
+		expect(h1).toEqual({ type: 'heading', level: 1, markerEnd: 2 });
+		expect(h3).toEqual({ type: 'heading', level: 3, markerEnd: 6 });
+		expect(notHeading.type).toBe('paragraph');
+	});
+
+	it('should detect ordered, unordered and nested list items', () => {
+		const blocks = analyzeMarkdownBlocks(['1. first', '  * nested', '-5 degrees']);
+
+		expect(blocks[0]).toEqual({ type: 'list-item', ordered: true, markerEnd: 3 });
+		expect(blocks[1]).toEqual({ type: 'list-item', ordered: false, markerEnd: 4 });
+		expect(blocks[2].type).toBe('paragraph');
+	});
+
+	it('should detect tables by their delimiter row', () => {
+		const text =
+			'| Item | Cost |\n| --- | ---: |\n| Rent | $1500 |\nFood | $800\n\n| not | a table |';
+		const blocks = analyzeMarkdownBlocks(text.split('\n'));
+
+		expect(blocks.slice(0, 4)).toEqual([
+			{ type: 'table-row', header: true },
+			{ type: 'table-delimiter' },
+			{ type: 'table-row', header: false },
+			{ type: 'table-row', header: false }
+		]);
+		expect(blocks[5].type).toBe('paragraph');
+	});
+
+	it('should require the header and delimiter to have the same number of cells', () => {
+		expect(types('| a | b |\n| --- |')).toEqual(['paragraph', 'paragraph']);
+	});
+
+	it('should mark fences and the lines between them as code', () => {
+		const blocks = analyzeMarkdownBlocks(['```js', '# not a heading', 'x = 1', '```', '# Heading']);
+
+		expect(blocks).toEqual([
+			{ type: 'code-fence', language: 'js' },
+			{ type: 'code' },
+			{ type: 'code' },
+			{ type: 'code-fence', language: null },
+			{ type: 'heading', level: 1, markerEnd: 2 }
+		]);
+	});
+});
+
+describe('findCodeBlockLines', () => {
+	it('should include fences and their content', () => {
+		expect([...findCodeBlockLines(['a = 1', '~~~', 'b = 2', '~~~', 'c = 3'])]).toEqual([1, 2, 3]);
+	});
+
+	it('should only close a fence with the same character and at least the same length', () => {
+		const lines = ['````', '```', '~~~~', '````', 'x = 1'];
+
+		expect([...findCodeBlockLines(lines)]).toEqual([0, 1, 2, 3]);
+	});
+
+	it('should run an unclosed fence to the end of the document', () => {
+		expect([...findCodeBlockLines(['a = 1', '```', 'b = 2', 'c = 3'])]).toEqual([1, 2, 3]);
+	});
+
+	it('should not open a fence for inline code', () => {
+		expect(findCodeBlockLines(['```inline``` code', 'x = 1']).size).toBe(0);
+	});
+});
+
+describe('splitTableCells', () => {
+	it('should split on unescaped pipes with optional outer pipes', () => {
+		expect(splitTableCells('| a | b \\| c |')).toEqual([' a ', ' b \\| c ']);
+		expect(splitTableCells('a | b')).toEqual(['a ', ' b']);
+	});
+});
@@ -0,0 +1,163 @@
+/**
+ * Block-level markdown structure of a document, one entry per line
+ *
+ * The editor overlay keeps exactly one rendered row per source line (gutter
+ * alignment and CursorManager depend on it), so lists, tables and code blocks
+ * are never rendered as real <ul>/<table>/<pre> elements. Instead every line
+ * learns which block it belongs to and renderMarkdownLine() styles that row.
+ *
+ * Close to CommonMark/GFM for the constructs people write in documents;
+ * setext headings, lazy continuation and nested containers are not supported.
+ */
+
+export type MarkdownBlock =
+	| { type: 'blank' }
+	| { type: 'paragraph' }
+	| { type: 'heading'; level: number; markerEnd: number }
+	| { type: 'rule' }
+	| { type: 'blockquote'; markerEnd: number }
+	| { type: 'list-item'; ordered: boolean; markerEnd: number }
+	| { type: 'table-row'; header: boolean }
+	| { type: 'table-delimiter' }
+	| { type: 'code-fence'; language: string | null } // Opening or closing ``` / ~~~ line
+	| { type: 'code' }; // Inside a fence: shown verbatim, never evaluated
+
+// markerEnd = UTF-16 offset where the line's content starts (after `## `, `> `, `- ` ...)
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})(.*)$/;
+const HEADING = /^ {0,3}(#{1,6})(?:[ \t]+|$)/;
+const RULE = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const BLOCKQUOTE = /^ {0,3}>[ \t]?/;
+const LIST_ITEM = /^[ \t]*(?:[-*+]|(\d{1,9})[.)])(?:[ \t]+|$)/;
+const TABLE_DELIMITER = /^[ \t]*\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+
+/**
+ * Cells of a table row, split on unescaped pipes (outer pipes are optional)
+ */
+export function splitTableCells(line: string): string[] {
+	const trimmed = line
+		.trim()
+		.replace(/^\|/, '')
+		.replace(/(?<!\\)\|$/, '');
+	return trimmed.split(/(?<!\\)\|/);
+}
+
+function isTableDelimiter(line: string): boolean {
+	return line.includes('|') && TABLE_DELIMITER.test(line);
+}
+
+/**
+ * Fence structure only: 'fence' for ``` lines, 'code' for lines between them
+ * An unclosed fence runs to the end of the document, as in CommonMark.
+ */
+function scanFences(lines: string[]): Array<'fence' | 'code' | null> {
+	const result: Array<'fence' | 'code' | null> = [];
+	let open: { char: string; length: number } | null = null;
+
+	for (const line of lines) {
+		const match = FENCE.exec(line);
+
+		if (open) {
+			const closes =
+				match !== null &&
+				match[1][0] === open.char &&
+				match[1].length >= open.length &&
+				match[2].trim() === '';
+			result.push(closes ? 'fence' : 'code');
+			if (closes) open = null;
+		} else if (match && !(match[1][0] === '`' && match[2].includes('`'))) {
+			// Backtick fences cannot have backticks in their info string (that's inline code)
+			open = { char: match[1][0], length: match[1].length };
+			result.push('fence');
+		} else {
+			result.push(null);
+		}
+	}
+
+	return result;
+}
+
+/**
+ * Lines that belong to fenced code blocks (fences included)
+ * Evaluation treats these as MARKDOWN no matter what the engine would say.
+ */
+export function findCodeBlockLines(lines: string[]): Set<number> {
+	const codeLines = new Set<number>();
+	scanFences(lines).forEach((kind, index) => {
+		if (kind) codeLines.add(index);
+	});
+	return codeLines;
+}
+
+/**
+ * Block context of every line, for lines the engine classified as MARKDOWN
+ */
+export function analyzeMarkdownBlocks(lines: string[]): MarkdownBlock[] {
+	const fences = scanFences(lines);
+	const blocks: MarkdownBlock[] = [];
+	let tableRows = false; // Following lines with pipes continue the current table
+
+	for (let index = 0; index < lines.length; index++) {
+		const line = lines[index];
+
+		if (fences[index] === 'code') {
+			blocks.push({ type: 'code' });
+			tableRows = false;
+			continue;
+		}
+		if (fences[index] === 'fence') {
+			const info = FENCE.exec(line)![2].trim().split(/\s+/)[0];
+			blocks.push({ type: 'code-fence', language: info || null });
+			tableRows = false;
+			continue;
+		}
+		if (line.trim() === '') {
+			blocks.push({ type: 'blank' });
+			tableRows = false;
+			continue;
+		}
+
+		const next = lines[index + 1];
+		if (
+			fences[index + 1] === null &&
+			next !== undefined &&
+			line.includes('|') &&
+			isTableDelimiter(next) &&
+			splitTableCells(line).length === splitTableCells(next).length
+		) {
+			blocks.push({ type: 'table-row', header: true }, { type: 'table-delimiter' });
+			index++;
+			tableRows = true;
+			continue;
+		}
+		if (tableRows && line.includes('|')) {
+			blocks.push({ type: 'table-row', header: false });
+			continue;
+		}
+		tableRows = false;
+
+		const heading = HEADING.exec(line);
+		if (heading) {
+			blocks.push({ type: 'heading', level: heading[1].length, markerEnd: heading[0].length });
+			continue;
+		}
+		if (RULE.test(line)) {
+			blocks.push({ type: 'rule' });
+			continue;
+		}
+		const quote = BLOCKQUOTE.exec(line);
+		if (quote) {
+			blocks.push({ type: 'blockquote', markerEnd: quote[0].length });
+			continue;
+		}
+		const item = LIST_ITEM.exec(line);
+		if (item) {
+			blocks.push({ type: 'list-item', ordered: item[1] !== undefined, markerEnd: item[0].length });
+			continue;
+		}
+
+		blocks.push({ type: 'paragraph' });
+	}
+
+	return blocks;
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { getDragSteps, getScrubStep, scrubLiteral } from './numberScrubbing';
+
+describe('getScrubStep', () => {
+	it('should step by the last decimal place of decimals', () => {
+		expect(getScrubStep('0.25')).toBe(0.01);
+		expect(getScrubStep('$19.9')).toBe(0.1);
+	});
+
+	it('should step integers by a tenth of their leading place', () => {
+		expect(getScrubStep('5')).toBe(1);
+		expect(getScrubStep('45')).toBe(1);
+		expect(getScrubStep('250')).toBe(10);
+		expect(getScrubStep('$1_500')).toBe(100);
+		expect(getScrubStep('1,250,000')).toBe(100000);
+	});
+
+	it('should return 0 for text without a number', () => {
+		expect(getScrubStep('$')).toBe(0);
+	});
+});
+
+describe('scrubLiteral', () => {
+	it('should move plain numbers by their step', () => {
+		expect(scrubLiteral('5', 1)).toBe('6');
+		expect(scrubLiteral('250', -3)).toBe('220');
+		expect(scrubLiteral('0.25', 2)).toBe('0.27');
+	});
+
+	it('should keep currency, grouping and decimals', () => {
+		expect(scrubLiteral('$1500', 1)).toBe('$1600');
+		expect(scrubLiteral('$1,500', 5)).toBe('$2,000');
+		expect(scrubLiteral('1_950', 1)).toBe('2_050');
+		expect(scrubLiteral('€9.90', 10)).toBe('€10.00');
+		expect(scrubLiteral('50 USD', -1)).toBe('49 USD');
+	});
+
+	it('should use the given step for the whole gesture', () => {
+		// 99 steps by 1, even once it has grown past 100
+		expect(scrubLiteral('99', 5, getScrubStep('99'))).toBe('104');
+		expect(scrubLiteral('1.5', 1, 1)).toBe('2.5');
+	});
+
+	it('should stop at zero', () => {
+		expect(scrubLiteral('3', -5)).toBe('0');
+		expect(scrubLiteral('0.5', -100)).toBe('0.0');
+	});
+
+	it('should move negative literals toward larger values', () => {
+		expect(scrubLiteral('$-50', 1)).toBe('$-49');
+	});
+
+	it('should leave text without a number unchanged', () => {
+		expect(scrubLiteral('$', 1)).toBe('$');
+		expect(scrubLiteral('5', 0)).toBe('5');
+	});
+});
+
+describe('getDragSteps', () => {
+	it('should count whole steps in either direction', () => {
+		expect(getDragSteps(0)).toBe(0);
+		expect(getDragSteps(7)).toBe(0);
+		expect(getDragSteps(17)).toBe(2);
+		expect(getDragSteps(-8)).toBe(-1);
+	});
+});
@@ -0,0 +1,106 @@
+/**
+ * Number scrubbing: nudge a NUMBER or CURRENCY literal up or down in place
+ * Pure functions for testability - the editor handles Alt+drag and Alt+Up/Down.
+ *
+ * A literal keeps its format while it changes: currency symbol or code, digit
+ * grouping (`1,500`, `1_500`) and the number of decimals. The sign is left alone
+ * and the digits stop at zero, so a literal never turns into a different token.
+ */
+
+/**
+ * Token types that can be scrubbed
+ */
+export const SCRUBBABLE_TOKEN_TYPES = ['NUMBER', 'CURRENCY'];
+
+/**
+ * Horizontal drag distance for one step (in CSS pixels)
+ */
+export const SCRUB_PIXELS_PER_STEP = 8;
+
+// prefix, integer digits (with grouping), decimals, suffix
+const LITERAL = /^(\D*?)(\d[\d,_]*)(?:\.(\d+))?(.*)$/s;
+
+interface ParsedLiteral {
+	prefix: string;
+	digits: string; // Integer and fraction digits without grouping
+	decimals: number;
+	separator: string | null; // Digit grouping character, if the literal uses one
+	suffix: string;
+}
+
+function parseLiteral(text: string): ParsedLiteral | null {
+	const match = LITERAL.exec(text);
+	if (!match) return null;
+
+	const [, prefix, integer, fraction = '', suffix] = match;
+	// A trailing separator is not grouping (`1,` is a number followed by a comma)
+	if (/[,_]$/.test(integer)) return null;
+
+	return {
+		prefix,
+		digits: integer.replace(/[,_]/g, '') + fraction,
+		decimals: fraction.length,
+		separator: /[,_]/.exec(integer)?.[0] ?? null,
+		suffix
+	};
+}
+
+function groupDigits(integer: string, separator: string): string {
+	return integer.replace(/\B(?=(\d{3})+$)/g, separator);
+}
+
+/**
+ * Size of one step for a literal, based on its magnitude
+ * The last decimal place for decimals (0.25 → 0.01), otherwise a tenth of the
+ * leading digit's place (1500 → 100, 250 → 10), but never less than 1.
+ *
+ * @returns 0 if `text` is not a number
+ */
+export function getScrubStep(text: string): number {
+	const literal = parseLiteral(text);
+	if (!literal) return 0;
+	if (literal.decimals > 0) return 10 ** -literal.decimals;
+
+	const integerDigits = literal.digits.replace(/^0+(?=\d)/, '').length;
+	return 10 ** Math.max(0, integerDigits - 2);
+}
+
+/**
+ * Move a literal by a number of steps (negative steps go down)
+ *
+ * @param step - Step size, normally getScrubStep() of the literal where the gesture started
+ * @returns The new literal text, or `text` unchanged if it is not a number
+ */
+export function scrubLiteral(
+	text: string,
+	steps: number,
+	step: number = getScrubStep(text)
+): string {
+	const literal = parseLiteral(text);
+	if (!literal || steps === 0) return text;
+
+	// Work in units of the last decimal place to avoid floating point drift
+	const scale = 10 ** literal.decimals;
+	const stepUnits = Math.max(1, Math.round(step * scale));
+	// Up means a larger value: the magnitude of a negative literal shrinks
+	const direction = literal.prefix.includes('-') ? -1 : 1;
+	const units = Math.max(0, Number(literal.digits) + direction * steps * stepUnits);
+
+	const digits = String(units).padStart(literal.decimals + 1, '0');
+	const integer = digits.slice(0, digits.length - literal.decimals);
+	const fraction = digits.slice(digits.length - literal.decimals);
+
+	return (
+		literal.prefix +
+		(literal.separator ? groupDigits(integer, literal.separator) : integer) +
+		(literal.decimals > 0 ? `.${fraction}` : '') +
+		literal.suffix
+	);
+}
+
+/**
+ * Steps for a horizontal drag distance (right is up)
+ */
+export function getDragSteps(deltaX: number): number {
+	return Math.trunc(deltaX / SCRUB_PIXELS_PER_STEP);
+}
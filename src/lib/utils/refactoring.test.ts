@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import {
+	isVariableName,
+	mapPositionThroughReplacements,
+	replaceRanges,
+	validateRename
+} from './refactoring';
+import type { Token } from '$lib/state/CalcMarkDocument';
+
+// Tokens as the engine returns them (rune positions)
+const identifier = (value: string, start: number): Token => ({
+	type: 'IDENTIFIER',
+	value,
+	start,
+	end: start + Array.from(value).length
+});
+const plus = (start: number): Token => ({ type: 'PLUS', value: '+', start, end: start + 1 });
+const eof = (start: number): Token => ({ type: 'EOF', value: '', start, end: start });
+
+describe('refactoring', () => {
+	describe('isVariableName', () => {
+		it('should accept a name the engine reads as one identifier', () => {
+			expect(isVariableName('größe', [identifier('größe', 0)])).toBe(true);
+			expect(isVariableName('🍕', [identifier('🍕', 0), eof(1)])).toBe(true);
+		});
+
+		it('should reject keywords, literals and several tokens', () => {
+			expect(isVariableName('if', [{ type: 'IF', value: 'if', start: 0, end: 2 }])).toBe(false);
+			expect(isVariableName('TRUE', [{ type: 'BOOLEAN', value: 'TRUE', start: 0, end: 4 }])).toBe(
+				false
+			);
+			expect(isVariableName('a+b', [identifier('a', 0), plus(1), identifier('b', 2)])).toBe(false);
+			expect(isVariableName('my rent', [identifier('my', 0), identifier('rent', 3)])).toBe(false);
+		});
+
+		it('should reject names the engine only partly reads', () => {
+			expect(isVariableName('', [eof(0)])).toBe(false);
+			expect(isVariableName('rent;', [identifier('rent', 0)])).toBe(false);
+		});
+	});
+
+	describe('validateRename', () => {
+		it('should reject names already used in the document', () => {
+			expect(validateRename('rent', 'food', [identifier('food', 0)], ['rent', 'food'])).toMatch(
+				/already used/
+			);
+		});
+
+		it('should allow renaming to the same name', () => {
+			expect(validateRename('rent', 'rent', [identifier('rent', 0)], ['rent'])).toBeNull();
+		});
+
+		it('should report invalid names', () => {
+			const tokens = [identifier('my', 0), identifier('rent', 3)];
+			expect(validateRename('rent', 'my rent', tokens, ['rent'])).toMatch(
+				/not a valid variable name/
+			);
+		});
+	});
+
+	describe('replaceRanges', () => {
+		it('should replace every range regardless of order', () => {
+			const text = 'a = 1\nb = a + a';
+			const ranges = [
+				{ start: 14, end: 15 },
+				{ start: 0, end: 1 },
+				{ start: 10, end: 11 }
+			];
+
+			expect(replaceRanges(text, ranges, 'alpha')).toBe('alpha = 1\nb = alpha + alpha');
+		});
+	});
+
+	describe('mapPositionThroughReplacements', () => {
+		const ranges = [
+			{ start: 0, end: 1 },
+			{ start: 10, end: 11 }
+		];
+
+		it('should shift positions after replaced ranges', () => {
+			// 'a = 1\nb = |a' -> 'alpha = 1\nb = |alpha'
+			expect(mapPositionThroughReplacements(10, ranges, 5)).toBe(14);
+			expect(mapPositionThroughReplacements(11, ranges, 5)).toBe(19);
+		});
+
+		it('should keep positions inside a replaced range within the replacement', () => {
+			const wide = [{ start: 4, end: 10 }];
+			expect(mapPositionThroughReplacements(7, wide, 2)).toBe(6);
+			expect(mapPositionThroughReplacements(7, wide, 10)).toBe(7);
+		});
+
+		it('should leave positions before every range unchanged', () => {
+			expect(mapPositionThroughReplacements(0, ranges, 5)).toBe(0);
+		});
+	});
+});
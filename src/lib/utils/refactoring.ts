@@ -0,0 +1,92 @@
+/**
+ * Refactoring utilities for the CalcDown editor
+ * Pure functions for testability
+ *
+ * All positions are UTF-16 code unit offsets into the full document text
+ * (the same unit as textarea.selectionStart), NOT runes.
+ */
+
+import type { Token } from '$lib/state/CalcMarkDocument';
+
+export interface TextRange {
+	start: number;
+	end: number;
+}
+
+/**
+ * Check that the engine reads `name` as exactly one variable
+ * Keywords (`if`, `true`, `and`), literals, operators and whitespace all
+ * tokenize differently, so the tokenizer - not a list kept here - decides.
+ *
+ * @param tokens - The engine's tokens for `name` on its own
+ */
+export function isVariableName(name: string, tokens: Token[]): boolean {
+	const significant = tokens.filter((token) => token.type !== 'EOF' && token.start !== token.end);
+	return (
+		significant.length === 1 &&
+		significant[0].type === 'IDENTIFIER' &&
+		significant[0].value === name
+	);
+}
+
+/**
+ * Validate a rename before applying it
+ *
+ * @param newNameTokens - The engine's tokens for `newName` (see isVariableName())
+ * @param existingNames - Every variable name currently in the document
+ * @returns An error message, or null if the rename is allowed
+ */
+export function validateRename(
+	oldName: string,
+	newName: string,
+	newNameTokens: Token[],
+	existingNames: Iterable<string>
+): string | null {
+	if (!isVariableName(newName, newNameTokens)) {
+		return `"${newName}" is not a valid variable name`;
+	}
+	if (newName !== oldName && new Set(existingNames).has(newName)) {
+		return `"${newName}" is already used in this document`;
+	}
+	return null;
+}
+
+/**
+ * Replace every range with the same text
+ * Ranges must not overlap; they may be given in any order.
+ */
+export function replaceRanges(text: string, ranges: TextRange[], replacement: string): string {
+	const sorted = [...ranges].sort((a, b) => a.start - b.start);
+	let result = '';
+	let position = 0;
+
+	for (const range of sorted) {
+		result += text.slice(position, range.start) + replacement;
+		position = range.end;
+	}
+
+	return result + text.slice(position);
+}
+
+/**
+ * Map a position through replaceRanges()
+ * Positions inside a replaced range keep their offset into it, clamped to the
+ * replacement - so a caret in the middle of a renamed variable stays inside it.
+ */
+export function mapPositionThroughReplacements(
+	position: number,
+	ranges: TextRange[],
+	replacementLength: number
+): number {
+	let shift = 0;
+
+	for (const range of [...ranges].sort((a, b) => a.start - b.start)) {
+		if (range.end <= position) {
+			shift += replacementLength - (range.end - range.start);
+		} else if (range.start < position) {
+			return range.start + shift + Math.min(position - range.start, replacementLength);
+		}
+	}
+
+	return position + shift;
+}
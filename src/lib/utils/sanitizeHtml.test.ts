@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { sanitizeHtml } from './sanitizeHtml';
+
+describe('sanitizeHtml', () => {
+	it('should keep allowlisted inline markup', () => {
+		const html = '<strong>b</strong> <em>i</em> <code>c</code> <del>d</del> a<br>b';
+		expect(sanitizeHtml(html)).toBe(html);
+	});
+
+	it('should leave text and entities untouched', () => {
+		expect(sanitizeHtml('a &lt; b &amp; it&#39;s')).toBe('a &lt; b &amp; it&#39;s');
+	});
+
+	it('should escape tags that are not allowlisted', () => {
+		expect(sanitizeHtml('<script>alert(1)</script>')).toBe('&lt;script>alert(1)&lt;/script>');
+		expect(sanitizeHtml('<iframe src="https://evil.example"></iframe>')).toBe(
+			'&lt;iframe src="https://evil.example">&lt;/iframe>'
+		);
+		expect(sanitizeHtml('<svg onload=alert(1)>')).toBe('&lt;svg onload=alert(1)>');
+	});
+
+	it('should escape comments and stray angle brackets', () => {
+		expect(sanitizeHtml('<!-- x --> <')).toBe('&lt;!-- x --> &lt;');
+		expect(sanitizeHtml('<b')).toBe('&lt;b');
+	});
+
+	it('should drop attributes that are not allowlisted', () => {
+		expect(sanitizeHtml('<img src=x onerror=alert(1)>')).toBe('<img src="x">');
+		expect(sanitizeHtml('<b style="color:red" onclick="alert(1)">x</b>')).toBe('<b>x</b>');
+		expect(sanitizeHtml('<SPAN ONMOUSEOVER=alert(1)>x</SPAN>')).toBe('<span>x</span>');
+	});
+
+	it('should add rel="noopener" to links and replace any rel given', () => {
+		expect(sanitizeHtml('<a href="https://example.com" title="t" rel="opener">x</a>')).toBe(
+			'<a href="https://example.com" title="t" rel="noopener">x</a>'
+		);
+	});
+
+	it('should keep safe and relative URLs', () => {
+		for (const url of [
+			'https://a.example/x?y=1&amp;z=2',
+			'mailto:a@b.c',
+			'tel:123',
+			'/docs',
+			'#top'
+		]) {
+			expect(sanitizeHtml(`<a href="${url}">x</a>`)).toBe(`<a href="${url}" rel="noopener">x</a>`);
+		}
+	});
+
+	it('should neutralize unsafe URL schemes', () => {
+		const hostile = [
+			'javascript:alert(1)',
+			'JavaScript:alert(1)',
+			' javascript:alert(1)',
+			'java\tscript:alert(1)',
+			'&#106;avascript:alert(1)',
+			'&#x6A;avascript:alert(1)',
+			'javascript&colon;alert(1)',
+			'vbscript:msgbox(1)',
+			'data:text/html,<script>alert(1)</script>'
+		];
+
+		for (const url of hostile) {
+			expect(sanitizeHtml(`<a href="${url}">x</a>`)).toBe('<a rel="noopener">x</a>');
+		}
+		expect(sanitizeHtml('<img src="javascript:alert(1)" alt="a">')).toBe('<img alt="a">');
+	});
+
+	it('should not let attribute values break out of their quotes', () => {
+		expect(sanitizeHtml(`<a title='"><script>alert(1)</script>'>x</a>`)).toBe(
+			'<a title="&quot;&gt;&lt;script&gt;alert(1)&lt;/script&gt;" rel="noopener">x</a>'
+		);
+	});
+});
@@ -0,0 +1,129 @@
+/**
+ * Allowlist sanitizer for rendered markdown
+ *
+ * marked passes raw HTML through unchanged, so a markdown line such as
+ * `<img src=x onerror=...>` would run when it is injected with {@html}.
+ * Every tag is checked against ALLOWED_TAGS; anything else (unknown tags,
+ * comments, a stray `<`) is escaped and shows up as the text that was typed.
+ *
+ * Works on strings without a DOM, so the editor, SSR and the HTML export
+ * all produce the same output.
+ */
+
+import { escapeHtml } from '$lib/utils/wysiwygRenderer';
+
+// Inline elements and the attributes each may keep
+const ALLOWED_TAGS = new Map<string, readonly string[]>([
+	['a', ['href', 'title']],
+	['img', ['src', 'alt', 'title']],
+	['strong', []],
+	['em', []],
+	['b', []],
+	['i', []],
+	['u', []],
+	['s', []],
+	['del', []],
+	['ins', []],
+	['mark', []],
+	['code', []],
+	['kbd', []],
+	['sub', []],
+	['sup', []],
+	['small', []],
+	['span', []],
+	['br', []]
+]);
+
+const VOID_TAGS = new Set(['br', 'img']);
+const URL_ATTRIBUTES = new Set(['href', 'src']);
+const SAFE_URL_SCHEMES = new Set(['http', 'https', 'mailto', 'tel']);
+
+// Entities that can spell out a scheme (`javascript&colon;`) besides numeric ones
+const NAMED_ENTITIES = new Map([
+	['amp', '&'],
+	['lt', '<'],
+	['gt', '>'],
+	['quot', '"'],
+	['apos', "'"],
+	['colon', ':'],
+	['tab', '\t'],
+	['newline', '\n']
+]);
+
+const TAG =
+	/<(\/?)([a-z][a-z0-9]*)((?:\s+[^\s"'<>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*\/?>/iy;
+const ATTRIBUTE = /([^\s"'<>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+function decodeEntities(value: string): string {
+	return value.replace(/&(?:#(\d+)|#x([0-9a-f]+)|([a-z]+));?/gi, (entity, decimal, hex, name) => {
+		if (name) return NAMED_ENTITIES.get(name.toLowerCase()) ?? entity;
+		const codePoint = decimal ? parseInt(decimal, 10) : parseInt(hex, 16);
+		return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : '';
+	});
+}
+
+/**
+ * Relative URLs and the schemes in SAFE_URL_SCHEMES; `javascript:`, `data:` etc. are not
+ * @param url - Attribute value with entities already decoded
+ */
+function isSafeUrl(url: string): boolean {
+	// Browsers ignore whitespace and control characters inside the scheme (`java\tscript:`)
+	const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(url.replace(/[\s\p{Cc}]+/gu, ''));
+	return !scheme || SAFE_URL_SCHEMES.has(scheme[1].toLowerCase());
+}
+
+/**
+ * Rebuild an allowed tag from its allowed attributes, or null to escape it
+ */
+function sanitizeTag(closing: boolean, tagName: string, attributes: string): string | null {
+	const name = tagName.toLowerCase();
+	const allowedAttributes = ALLOWED_TAGS.get(name);
+	if (!allowedAttributes) return null;
+	if (closing) return VOID_TAGS.has(name) ? null : `</${name}>`;
+
+	let tag = `<${name}`;
+	for (const [, attributeName, ...values] of attributes.matchAll(ATTRIBUTE)) {
+		const attribute = attributeName.toLowerCase();
+		if (!allowedAttributes.includes(attribute)) continue;
+
+		const value = decodeEntities(values.find((v) => v !== undefined) ?? '');
+		// Unsafe links and images lose their URL (the text stays)
+		if (URL_ATTRIBUTES.has(attribute) && !isSafeUrl(value)) continue;
+
+		tag += ` ${attribute}="${escapeHtml(value)}"`;
+	}
+	if (name === 'a') tag += ' rel="noopener"';
+
+	return `${tag}>`;
+}
+
+/**
+ * Keep allowlisted inline markup from `html`, escape everything else
+ */
+export function sanitizeHtml(html: string): string {
+	let output = '';
+	let position = 0;
+
+	while (position < html.length) {
+		const tagStart = html.indexOf('<', position);
+		if (tagStart === -1) {
+			output += html.slice(position);
+			break;
+		}
+		output += html.slice(position, tagStart);
+
+		TAG.lastIndex = tagStart;
+		const match = TAG.exec(html);
+		const tag = match && sanitizeTag(match[1] === '/', match[2], match[3]);
+
+		if (tag === null) {
+			output += '&lt;';
+			position = tagStart + 1;
+		} else {
+			output += tag;
+			position = TAG.lastIndex;
+		}
+	}
+
+	return output;
+}
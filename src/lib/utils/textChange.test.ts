@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import {
+	applyTextChange,
+	computeTextChange,
+	invertTextChange,
+	mapPositionThroughChange
+} from './textChange';
+
+describe('textChange', () => {
+	describe('computeTextChange', () => {
+		it('returns null for identical texts', () => {
+			expect(computeTextChange('x = 5', 'x = 5')).toBeNull();
+		});
+
+		it('describes an insertion', () => {
+			expect(computeTextChange('x = 5', 'x = 50')).toEqual({ from: 5, removed: '', inserted: '0' });
+		});
+
+		it('describes a deletion', () => {
+			expect(computeTextChange('x = 50', 'x = 5')).toEqual({ from: 5, removed: '0', inserted: '' });
+		});
+
+		it('describes a replacement in the middle', () => {
+			expect(computeTextChange('a = b + c', 'a = d + c')).toEqual({
+				from: 4,
+				removed: 'b',
+				inserted: 'd'
+			});
+		});
+
+		it('never splits surrogate pairs', () => {
+			// 🏠 and 🏡 share the same high surrogate
+			const change = computeTextChange('🏠 = 1', '🏡 = 1');
+			expect(change).toEqual({ from: 0, removed: '🏠', inserted: '🏡' });
+		});
+	});
+
+	describe('applyTextChange / invertTextChange', () => {
+		it('round-trips a change', () => {
+			const before = 'rent = $1500\nfood = $800';
+			const after = 'rent = $1600\nfood = $800\nfun = $100';
+			const change = computeTextChange(before, after)!;
+
+			expect(applyTextChange(before, change)).toBe(after);
+			expect(applyTextChange(after, invertTextChange(change))).toBe(before);
+		});
+	});
+
+	describe('mapPositionThroughChange', () => {
+		const change = { from: 4, removed: 'abc', inserted: 'xy' };
+
+		it('keeps positions before the change', () => {
+			expect(mapPositionThroughChange(2, change)).toBe(2);
+			expect(mapPositionThroughChange(4, change)).toBe(4);
+		});
+
+		it('shifts positions after the change', () => {
+			expect(mapPositionThroughChange(10, change)).toBe(9);
+		});
+
+		it('moves positions inside the replaced range to the end of the insertion', () => {
+			expect(mapPositionThroughChange(5, change)).toBe(6);
+		});
+	});
+});
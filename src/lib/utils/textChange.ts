@@ -0,0 +1,99 @@
+/**
+ * Minimal text change utilities
+ * Pure functions for describing, applying and inverting single-range edits
+ *
+ * All positions are UTF-16 code unit offsets into the full document text
+ * (the same unit as textarea.selectionStart), NOT runes.
+ */
+
+export interface TextChange {
+	from: number; // Start of the replaced range (UTF-16)
+	removed: string; // Text that was replaced
+	inserted: string; // Text that replaced it
+}
+
+/**
+ * Compute the single changed range between two texts
+ * Uses common prefix/suffix trimming, which is exact for any single edit
+ * and a compact (if not minimal) description for multi-range edits.
+ *
+ * @returns null when the texts are identical
+ */
+export function computeTextChange(oldText: string, newText: string): TextChange | null {
+	if (oldText === newText) return null;
+
+	let prefix = 0;
+	const maxPrefix = Math.min(oldText.length, newText.length);
+	while (prefix < maxPrefix && oldText.charCodeAt(prefix) === newText.charCodeAt(prefix)) {
+		prefix++;
+	}
+
+	let suffix = 0;
+	const maxSuffix = maxPrefix - prefix;
+	while (
+		suffix < maxSuffix &&
+		oldText.charCodeAt(oldText.length - 1 - suffix) ===
+			newText.charCodeAt(newText.length - 1 - suffix)
+	) {
+		suffix++;
+	}
+
+	// Never split a surrogate pair - widen the range to include both halves
+	if (prefix > 0 && isHighSurrogate(oldText.charCodeAt(prefix - 1))) {
+		prefix--;
+	}
+	if (suffix > 0 && isLowSurrogate(oldText.charCodeAt(oldText.length - suffix))) {
+		suffix--;
+	}
+
+	return {
+		from: prefix,
+		removed: oldText.substring(prefix, oldText.length - suffix),
+		inserted: newText.substring(prefix, newText.length - suffix)
+	};
+}
+
+/**
+ * Apply a change to a text
+ */
+export function applyTextChange(text: string, change: TextChange): string {
+	return (
+		text.substring(0, change.from) +
+		change.inserted +
+		text.substring(change.from + change.removed.length)
+	);
+}
+
+/**
+ * Build the change that reverts `change`
+ */
+export function invertTextChange(change: TextChange): TextChange {
+	return {
+		from: change.from,
+		removed: change.inserted,
+		inserted: change.removed
+	};
+}
+
+/**
+ * Map a position through a change (e.g. to keep a cursor stable across an edit)
+ * Positions inside the replaced range move to the end of the inserted text.
+ */
+export function mapPositionThroughChange(position: number, change: TextChange): number {
+	if (position <= change.from) return position;
+
+	const removedEnd = change.from + change.removed.length;
+	if (position >= removedEnd) {
+		return position + change.inserted.length - change.removed.length;
+	}
+
+	return change.from + change.inserted.length;
+}
+
+function isHighSurrogate(code: number): boolean {
+	return code >= 0xd800 && code <= 0xdbff;
+}
+
+function isLowSurrogate(code: number): boolean {
+	return code >= 0xdc00 && code <= 0xdfff;
+}
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import { renderLine, renderMarkdownLine } from './wysiwygRenderer';
+import { analyzeMarkdownBlocks } from './markdownBlocks';
+
+describe('renderMarkdownLine', () => {
+	it('should render inline markdown', () => {
+		expect(renderMarkdownLine('**Total** with `code`')).toBe(
+			'<strong>Total</strong> with <code>code</code>'
+		);
+	});
+
+	it('should render a non-breaking space for empty lines', () => {
+		expect(renderMarkdownLine('   ')).toBe('&nbsp;');
+	});
+
+	it('should add rel="noopener" to links', () => {
+		expect(renderMarkdownLine('[docs](https://example.com)')).toBe(
+			'<a href="https://example.com" rel="noopener">docs</a>'
+		);
+	});
+
+	it('should not pass through event handlers or scripts', () => {
+		const hostile = [
+			'<img src=x onerror=alert(1)>',
+			'<script>alert(1)</script>',
+			'Notes <svg/onload=alert(1)>',
+			'<a href="#" onclick="alert(1)">x</a>',
+			'<iframe srcdoc="<script>alert(1)</script>"></iframe>'
+		];
+
+		for (const line of hostile) {
+			const html = renderMarkdownLine(line);
+			expect(html).not.toMatch(/<(script|svg|iframe)/i);
+			expect(html).not.toMatch(/<[^>]+\son\w+=/i);
+		}
+	});
+
+	it('should neutralize javascript: links', () => {
+		expect(renderMarkdownLine('[click](javascript:alert(1))')).toBe('<a rel="noopener">click</a>');
+		expect(renderMarkdownLine('![x](javascript:alert(1))')).toBe('<img alt="x">');
+	});
+});
+
+describe('renderMarkdownLine with block context', () => {
+	function render(lines: string[]) {
+		const blocks = analyzeMarkdownBlocks(lines);
+		return lines.map((line, index) => renderMarkdownLine(line, blocks[index]));
+	}
+
+	it('should keep block markers as muted text', () => {
+		expect(render(['## Income', '> Note', '- **rent**'])).toEqual([
+			'<span class="md-heading md-h2"><span class="md-marker">## </span>Income</span>',
+			'<span class="md-blockquote"><span class="md-marker">&gt; </span>Note</span>',
+			'<span class="md-list-item"><span class="md-marker">- </span><strong>rent</strong></span>'
+		]);
+	});
+
+	it('should render table rows cell by cell', () => {
+		const [header, delimiter, row] = render(['| Item | Cost |', '|---|---|', '| Rent | *$1500* |']);
+
+		expect(header).toBe(
+			'<span class="md-table-row md-table-header"><span class="md-marker">|</span> Item <span class="md-marker">|</span> Cost <span class="md-marker">|</span></span>'
+		);
+		expect(delimiter).toBe('<span class="md-marker">|---|---|</span>');
+		expect(row).toContain('<em>$1500</em>');
+	});
+
+	it('should render code blocks verbatim', () => {
+		expect(render(['```', '**x** <b>', '```'])).toEqual([
+			'<span class="md-code-fence">```</span>',
+			'<code class="md-code">**x** &lt;b&gt;</code>',
+			'<span class="md-code-fence">```</span>'
+		]);
+	});
+});
+
+describe('renderMarkdownLine with variables', () => {
+	const variables = {
+		leftover: { OriginalLine: 4, Value: { Value: 2500, Symbol: '$' } },
+		is_big: { OriginalLine: 5, Value: { Value: true } }
+	};
+
+	it('should show values of referenced variables', () => {
+		expect(renderMarkdownLine('We have {{leftover}} per month', undefined, variables)).toBe(
+			'We have <span class="md-value" title="leftover">$2,500</span> per month'
+		);
+		expect(renderMarkdownLine('Big: {{ is_big }}', undefined, variables)).toBe(
+			'Big: <span class="md-value" title="is_big">true</span>'
+		);
+	});
+
+	it('should show unknown names as an error chip', () => {
+		expect(renderMarkdownLine('{{missing}}', undefined, variables)).toBe(
+			'<span class="md-value md-value-error" title="Unknown variable: missing">{{missing}}</span>'
+		);
+		expect(renderMarkdownLine('{{constructor}}', undefined, variables)).toContain('md-value-error');
+	});
+
+	it('should show references as typed before anything is evaluated', () => {
+		expect(renderMarkdownLine('We have {{leftover}}')).toBe('We have {{leftover}}');
+	});
+
+	it('should resolve references inside markdown blocks', () => {
+		const [heading] = analyzeMarkdownBlocks(['## Left: {{leftover}}']);
+
+		expect(renderMarkdownLine('## Left: {{leftover}}', heading, variables)).toContain(
+			'Left: <span class="md-value" title="leftover">$2,500</span>'
+		);
+	});
+});
+
+describe('renderLine', () => {
+	it('should escape calculation lines without tokens', () => {
+		expect(
+			renderLine({ lineNumber: 0, rawContent: 'x = <b>', classification: 'CALCULATION' })
+		).toBe('<span class="calculation">x = &lt;b&gt;</span>');
+	});
+
+	it('should escape lines that are not classified yet', () => {
+		expect(renderLine({ lineNumber: 0, rawContent: '<img src=x>', classification: null })).toBe(
+			'&lt;img src=x&gt;'
+		);
+	});
+
+	it('should sanitize markdown lines', () => {
+		expect(
+			renderLine({
+				lineNumber: 0,
+				rawContent: '<img src=x onerror=alert(1)>',
+				classification: 'MARKDOWN'
+			})
+		).toBe('<img src="x">');
+	});
+});
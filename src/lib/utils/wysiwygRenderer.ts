@@ -3,9 +3,12 @@
  * All functions are pure - no side effects, easy to test
  */
 
-import { marked } from 'marked';
+import { Marked } from 'marked';
 import { runeToUtf16Position } from '$lib/utils/unicode';
 import { getTokenClassName } from '$lib/utils/tokenClassification';
+import { sanitizeHtml } from '$lib/utils/sanitizeHtml';
+import type { MarkdownBlock } from '$lib/utils/markdownBlocks';
+import { interpolationExtension, replaceReferences } from '$lib/utils/interpolation';
 
 interface Token {
 	type: string;
@@ -14,7 +17,7 @@ interface Token {
 }
 
 interface CalculationValue {
-	Value: number | string;
+	Value: number | string | boolean;
 	Symbol?: string;
 }
 
@@ -22,6 +25,11 @@ interface CalculationResult {
 	Value: CalculationValue;
 }
 
+/**
+ * Variables `{{name}}` references resolve against (a VariableContext)
+ */
+export type Variables = Record<string, { Value: CalculationValue }>;
+
 interface Line {
 	lineNumber: number;
 	rawContent: string;
@@ -75,12 +83,95 @@ export function formatNumber(num: number): string {
 	});
 }
 
+const markdown = new Marked({ extensions: [interpolationExtension] });
+
+/**
+ * A `{{name}}` reference: the formatted value as a chip, or an error chip for unknown names
+ * Without `variables` (nothing evaluated yet) the reference is shown as typed.
+ */
+function renderReference(name: string, variables: Variables | undefined, plain: boolean): string {
+	const value = variables && Object.hasOwn(variables, name) ? variables[name].Value : null;
+	const text = value ? formatValue(value) : `{{${name}}}`;
+
+	if (plain || !variables) return escapeHtml(text);
+
+	const className = value ? 'md-value' : 'md-value md-value-error';
+	const title = value ? name : `Unknown variable: ${name}`;
+	return `<span class="${className}" title="${escapeHtml(title)}">${escapeHtml(text)}</span>`;
+}
+
+/**
+ * Render inline markdown (emphasis, code spans, links, `{{name}}` values)
+ * Raw HTML in the text is filtered by sanitizeHtml() - only allowlisted inline tags survive
+ */
+function renderInlineMarkdown(content: string, variables?: Variables): string {
+	const html = sanitizeHtml(markdown.parseInline(content) as string);
+	return replaceReferences(html, (name, inAttribute) =>
+		renderReference(name, variables, inAttribute)
+	);
+}
+
+/**
+ * Block syntax (`## `, `> `, `- `, pipes) stays visible but muted, so the row
+ * keeps every source character and lines up with the textarea underneath
+ */
+function renderMarker(marker: string): string {
+	return `<span class="md-marker">${escapeHtml(marker)}</span>`;
+}
+
+function renderMarkedLine(
+	className: string,
+	content: string,
+	markerEnd: number,
+	variables?: Variables
+): string {
+	const marker = renderMarker(content.slice(0, markerEnd));
+	const text = renderInlineMarkdown(content.slice(markerEnd), variables);
+	return `<span class="${className}">${marker}${text}</span>`;
+}
+
+function renderTableRow(content: string, header: boolean, variables?: Variables): string {
+	const cells = content
+		.split(/((?<!\\)\|)/)
+		.map((part) => (part === '|' ? renderMarker(part) : renderInlineMarkdown(part, variables)))
+		.join('');
+	return `<span class="md-table-row${header ? ' md-table-header' : ''}">${cells}</span>`;
+}
+
 /**
  * Render a markdown line
+ *
+ * @param block - The line's block context from analyzeMarkdownBlocks(); without it
+ *   the line is rendered as inline markdown only
+ * @param variables - Values for `{{name}}` references (the document's variable context)
  */
-export function renderMarkdownLine(content: string): string {
+export function renderMarkdownLine(
+	content: string,
+	block?: MarkdownBlock,
+	variables?: Variables
+): string {
 	if (content.trim() === '') return '&nbsp;'; // Empty line
-	return marked.parseInline(content) as string;
+
+	switch (block?.type) {
+		case 'heading':
+			return renderMarkedLine(`md-heading md-h${block.level}`, content, block.markerEnd, variables);
+		case 'blockquote':
+			return renderMarkedLine('md-blockquote', content, block.markerEnd, variables);
+		case 'list-item':
+			return renderMarkedLine('md-list-item', content, block.markerEnd, variables);
+		case 'table-row':
+			return renderTableRow(content, block.header, variables);
+		case 'rule':
+		case 'table-delimiter':
+			return renderMarker(content);
+		case 'code-fence':
+			return `<span class="md-code-fence">${escapeHtml(content)}</span>`;
+		case 'code':
+			// Verbatim - no inline markdown inside code blocks
+			return `<code class="md-code">${escapeHtml(content)}</code>`;
+		default:
+			return renderInlineMarkdown(content, variables);
+	}
 }
 
 /**
@@ -142,15 +233,18 @@ export function renderCalculationLine(line: Line): string {
 /**
  * Render a line based on its classification
  * Pure function - always returns the same output for the same input
+ *
+ * @param block - Markdown block context of the line (see analyzeMarkdownBlocks())
+ * @param variables - Values for `{{name}}` references in markdown lines
  */
-export function renderLine(line: Line): string {
+export function renderLine(line: Line, block?: MarkdownBlock, variables?: Variables): string {
 	if (!line.classification) {
 		// No classification yet - show raw (optimistic UI)
 		return escapeHtml(line.rawContent);
 	}
 
 	if (line.classification === 'MARKDOWN') {
-		return renderMarkdownLine(line.rawContent);
+		return renderMarkdownLine(line.rawContent, block, variables);
 	} else if (line.classification === 'CALCULATION') {
 		return renderCalculationLine(line);
 	}
@@ -1,9 +1,23 @@
 /**
  * CalcMark Web Worker
  * Runs WASM evaluation in background thread to prevent blocking UI
+ *
+ * Two evaluation modes:
+ * - 'evaluate': one-shot, stateless evaluation of the given input
+ * - 'open'/'edit': incremental protocol (see evaluationProtocol.ts). The worker
+ *   keeps the document and only re-evaluates what each line delta affects.
+ *
+ * 'tokenize' returns the engine's tokens for a snippet, e.g. a proposed variable name.
  */
 
-import { processCalcMark, initCalcMark } from '../client/calcmark.js';
+import { processCalcMark, initCalcMark, getCalcMark } from '../client/calcmark.js';
+import { IncrementalEvaluator } from '../client/incrementalEvaluator.js';
+import {
+	filterTokensToRange,
+	type DocumentRequest,
+	type DocumentResponse
+} from '../client/evaluationProtocol.js';
+import type { WasmAssetUrls } from '../client/assetPaths.js';
 
 // Message types
 interface EvaluateMessage {
@@ -13,33 +27,83 @@ interface EvaluateMessage {
 	offset: number;
 }
 
+interface TokenizeMessage {
+	type: 'tokenize';
+	id: number;
+	source: string;
+}
+
 interface InitMessage {
 	type: 'init';
+	assets: WasmAssetUrls | null; // null = the files bundled with the app
+}
+
+type WorkerMessage = EvaluateMessage | TokenizeMessage | InitMessage | DocumentRequest;
+
+// Initialize WASM when worker starts. Messages are handled concurrently (each
+// handler awaits), so every caller shares the same in-flight initialization.
+let initPromise: Promise<void> | null = null;
+let wasmAssets: WasmAssetUrls | undefined;
+
+// Created once WASM is ready
+let evaluatorPromise: Promise<IncrementalEvaluator> | null = null;
+
+function ensureInitialized(): Promise<void> {
+	initPromise ??= initCalcMark(wasmAssets).catch((error) => {
+		// Let the next message retry
+		initPromise = null;
+		throw error;
+	});
+	return initPromise;
+}
+
+function getEvaluator(): Promise<IncrementalEvaluator> {
+	evaluatorPromise ??= ensureInitialized()
+		.then(() => getCalcMark())
+		.then((api) => new IncrementalEvaluator(api))
+		.catch((error) => {
+			evaluatorPromise = null;
+			throw error;
+		});
+	return evaluatorPromise;
 }
 
-type WorkerMessage = EvaluateMessage | InitMessage;
+function handleDocumentRequest(
+	message: DocumentRequest,
+	documentEvaluator: IncrementalEvaluator
+): DocumentResponse {
+	if (message.type === 'open') {
+		documentEvaluator.open(message.text, message.version);
+	} else if (!documentEvaluator.applyDelta(message.delta, message.baseVersion, message.version)) {
+		// We missed a message (or restarted) - the editor must send the full text again
+		return { type: 'resync-required', id: message.id, version: message.version };
+	}
 
-// Initialize WASM when worker starts
-let initialized = false;
+	// Evaluation always covers the whole document; only off-screen tokens are skipped
+	const { results, stats } = documentEvaluator.evaluate();
+	const tokensByLine = filterTokensToRange(results.tokensByLine, message.visibleRange);
+	return {
+		type: 'document-result',
+		id: message.id,
+		version: message.version,
+		results: { ...results, tokensByLine },
+		stats
+	};
+}
 
 self.addEventListener('message', async (event: MessageEvent<WorkerMessage>) => {
 	const message = event.data;
 
 	try {
 		if (message.type === 'init') {
-			if (!initialized) {
-				await initCalcMark();
-				initialized = true;
-			}
+			wasmAssets = message.assets ?? undefined;
+			await ensureInitialized();
 			self.postMessage({ type: 'init-complete' });
 			return;
 		}
 
 		if (message.type === 'evaluate') {
-			if (!initialized) {
-				await initCalcMark();
-				initialized = true;
-			}
+			await ensureInitialized();
 
 			const results = await processCalcMark(message.input);
 
@@ -48,6 +112,25 @@ self.addEventListener('message', async (event: MessageEvent<WorkerMessage>) => {
 				id: message.id,
 				results
 			});
+			return;
+		}
+
+		if (message.type === 'tokenize') {
+			await ensureInitialized();
+
+			const tokenResult = (await getCalcMark()).tokenize(message.source);
+			if (tokenResult.error) throw new Error(tokenResult.error);
+
+			self.postMessage({
+				type: 'tokens',
+				id: message.id,
+				tokens: tokenResult.tokens ? JSON.parse(tokenResult.tokens) : []
+			});
+			return;
+		}
+
+		if (message.type === 'open' || message.type === 'edit') {
+			self.postMessage(handleDocumentRequest(message, await getEvaluator()));
 		}
 	} catch (error) {
 		// Error will be sent to main thread via postMessage
@@ -0,0 +1,16 @@
+import { error } from '@sveltejs/kit';
+import { loadDocument } from '$lib/storage/documentStore';
+import type { PageLoad } from './$types';
+
+// Documents live in the browser's IndexedDB, so this page can only render client-side
+export const ssr = false;
+
+export const load: PageLoad = async ({ params }) => {
+	const document = await loadDocument(params.id);
+
+	if (!document) {
+		throw error(404, 'Document not found');
+	}
+
+	return { document };
+};
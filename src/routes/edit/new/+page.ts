@@ -0,0 +1,13 @@
+import { redirect } from '@sveltejs/kit';
+import { resolve } from '$app/paths';
+import { createDocument } from '$lib/storage/documentStore';
+import { NEW_DOCUMENT_TEXT } from '$lib/constants';
+import type { PageLoad } from './$types';
+
+// Creating a document writes to IndexedDB, so this must run in the browser
+export const ssr = false;
+
+export const load: PageLoad = async () => {
+	const summary = await createDocument(NEW_DOCUMENT_TEXT);
+	throw redirect(307, resolve('/edit/[id]', { id: summary.id }));
+};
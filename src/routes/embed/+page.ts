@@ -0,0 +1,2 @@
+// The viewer evaluates on a Web Worker and reads the share fragment, so it only renders client-side
+export const ssr = false;
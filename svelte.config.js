@@ -6,6 +6,15 @@ const config = {
 	// Consult https://svelte.dev/docs/kit/integrations
 	// for more information about preprocessors
 	preprocess: vitePreprocess(),
+	// *.element.svelte files are custom elements (see src/lib/element)
+	vitePlugin: {
+		dynamicCompileOptions: ({ filename }) =>
+			filename.endsWith('.element.svelte') ? { customElement: true } : undefined
+	},
+	compilerOptions: {
+		// svelte-check does not apply the per-file option above (nor pass file names here)
+		warningFilter: (warning) => warning.code !== 'options_missing_custom_element'
+	},
 	kit: {
 		adapter: adapter()
 	}
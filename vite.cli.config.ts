@@ -0,0 +1,33 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vite';
+
+/**
+ * Node build of the calcmark command: `npm run build:cli`
+ *
+ * Writes everything to dist/cli, so the directory works on its own (e.g. after
+ * `npm install -g` or copied elsewhere):
+ * - calcmark.js: src/cli/calcmark.ts and the parts of $lib it uses
+ * - calcmark.wasm, wasm_exec.js: the engine, copied from src/lib/wasm and read
+ *   from disk at runtime (CALCMARK_WASM_DIR or --wasm-dir point elsewhere)
+ */
+export default defineConfig({
+	resolve: {
+		alias: { $lib: fileURLToPath(new URL('./src/lib', import.meta.url)) }
+	},
+	// Copied as-is next to the bundle
+	publicDir: 'src/lib/wasm',
+	build: {
+		ssr: 'src/cli/calcmark.ts',
+		outDir: 'dist/cli',
+		emptyOutDir: true,
+		target: 'node20',
+		rollupOptions: {
+			// The app's Vite-bundled engine (?raw/?url imports); the CLI passes the files in
+			external: [/\/bundledWasm$/],
+			output: {
+				entryFileNames: 'calcmark.js',
+				banner: '#!/usr/bin/env node'
+			}
+		}
+	}
+});
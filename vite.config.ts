@@ -54,6 +54,8 @@ export default defineConfig({
 				test: {
 					name: 'server',
 					environment: 'node',
+					// Process app stylesheets so `?raw` imports (HTML export) contain the CSS
+					css: { include: [/src\/lib\/styles\/.+\.css/] },
 					include: ['src/**/*.{test,spec}.{js,ts}'],
 					exclude: ['src/**/*.svelte.{test,spec}.{js,ts}']
 				}
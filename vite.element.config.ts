@@ -0,0 +1,47 @@
+import { svelte } from '@sveltejs/vite-plugin-svelte';
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vite';
+
+/**
+ * Standalone build of <calcdown-editor> for non-Svelte hosts: `npm run build:element`
+ *
+ * Writes everything to dist/element - serve that directory and pass it as the
+ * base path to defineCalcdownEditor():
+ * - calcdown.js: the library entry (src/lib/index.ts), styles injected at runtime
+ * - calcmark.worker.js: the evaluation worker
+ * - calcmark.wasm, wasm_exec.js: the engine, copied from src/lib/wasm
+ */
+export default defineConfig({
+	plugins: [
+		svelte({
+			// No separate .css files to link - components add their own styles
+			compilerOptions: { css: 'injected' }
+		})
+	],
+	resolve: {
+		alias: { $lib: fileURLToPath(new URL('./src/lib', import.meta.url)) }
+	},
+	// Copied as-is next to the bundle
+	publicDir: 'src/lib/wasm',
+	build: {
+		outDir: 'dist/element',
+		emptyOutDir: true,
+		lib: {
+			entry: {
+				calcdown: 'src/lib/index.ts',
+				'calcmark.worker': 'src/lib/workers/calcmark.worker.ts'
+			},
+			formats: ['es'],
+			fileName: (_format, entryName) => `${entryName}.js`
+		},
+		rollupOptions: {
+			// The app's Vite-bundled engine; this build always loads it from the base path
+			external: [/\/bundledWasm$/]
+		}
+	},
+	// The worker manager's `new Worker(new URL(...))` fallback is bundled separately
+	worker: {
+		format: 'es',
+		rollupOptions: { external: [/\/bundledWasm$/] }
+	}
+});